@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "IngredientRole" AS ENUM ('INPUT', 'OUTPUT');
+
+-- CreateTable
+CREATE TABLE "recipe_ingredients" (
+    "id" TEXT NOT NULL,
+    "recipe_id" TEXT NOT NULL,
+    "modpack_version_id" TEXT NOT NULL,
+    "ingredient_id" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "role" "IngredientRole" NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "chance" DOUBLE PRECISION,
+
+    CONSTRAINT "recipe_ingredients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recipe_ingredients_modpack_version_id_role_ingredient_id_idx" ON "recipe_ingredients"("modpack_version_id", "role", "ingredient_id");
+
+-- CreateIndex
+CREATE INDEX "recipe_ingredients_recipe_id_idx" ON "recipe_ingredients"("recipe_id");
+
+-- AddForeignKey
+ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_recipe_id_fkey" FOREIGN KEY ("recipe_id") REFERENCES "recipes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Force a full re-sync so existing recipes get their ingredient rows
+UPDATE "modpack_versions" SET "recipe_hash" = NULL;
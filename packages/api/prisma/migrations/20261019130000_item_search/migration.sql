@@ -0,0 +1,5 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "items_display_name_trgm_idx" ON "items" USING GIN ("display_name" gin_trgm_ops);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "modpack_versions" ADD COLUMN     "energy_config" JSONB;
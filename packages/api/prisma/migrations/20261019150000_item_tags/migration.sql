@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "item_tags" (
+    "id" TEXT NOT NULL,
+    "modpack_version_id" TEXT NOT NULL,
+    "tag" TEXT NOT NULL,
+    "item_id" TEXT NOT NULL,
+
+    CONSTRAINT "item_tags_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "item_tags_modpack_version_id_item_id_idx" ON "item_tags"("modpack_version_id", "item_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "item_tags_modpack_version_id_tag_item_id_key" ON "item_tags"("modpack_version_id", "tag", "item_id");
+
+-- AddForeignKey
+ALTER TABLE "item_tags" ADD CONSTRAINT "item_tags_modpack_version_id_fkey" FOREIGN KEY ("modpack_version_id") REFERENCES "modpack_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "recipes" ADD COLUMN     "validation_issues" JSONB;
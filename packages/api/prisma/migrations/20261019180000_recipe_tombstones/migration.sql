@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "recipes" ADD COLUMN     "removed_at" TIMESTAMP(3);
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "sync_events" (
+    "id" TEXT NOT NULL,
+    "modpack_version_id" TEXT NOT NULL,
+    "user_id" TEXT,
+    "kind" TEXT NOT NULL,
+    "upload_type" TEXT,
+    "outcome" TEXT NOT NULL,
+    "error_code" TEXT,
+    "content_hash" TEXT,
+    "previous_hash" TEXT,
+    "manifest_hash" TEXT,
+    "stats" JSONB,
+    "duration_ms" INTEGER NOT NULL,
+    "client_version" TEXT,
+    "job_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sync_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_events_modpack_version_id_created_at_idx" ON "sync_events"("modpack_version_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "sync_events" ADD CONSTRAINT "sync_events_modpack_version_id_fkey" FOREIGN KEY ("modpack_version_id") REFERENCES "modpack_versions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sync_events" ADD CONSTRAINT "sync_events_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
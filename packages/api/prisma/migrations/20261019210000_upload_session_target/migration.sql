@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "upload_sessions" ADD COLUMN     "manifest_hash" TEXT,
+ADD COLUMN     "modpack_slug" TEXT,
+ADD COLUMN     "version" TEXT,
+ALTER COLUMN "modpack_version_id" DROP NOT NULL;
+
+-- Backfill open sessions from the version they were started for
+UPDATE "upload_sessions" AS s
+SET "modpack_slug" = m."slug", "version" = v."version"
+FROM "modpack_versions" AS v
+JOIN "modpacks" AS m ON m."id" = v."modpack_id"
+WHERE v."id" = s."modpack_version_id";
+
+DELETE FROM "upload_sessions" WHERE "modpack_slug" IS NULL;
+
+ALTER TABLE "upload_sessions" ALTER COLUMN "modpack_slug" SET NOT NULL,
+ALTER COLUMN "version" SET NOT NULL;
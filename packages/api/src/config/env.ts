@@ -43,6 +43,12 @@ export const env = {
     "http://localhost:3001/auth/discord/callback",
   ),
 
+  // Access
+  adminUserIds: optionalEnv("ADMIN_USER_IDS", "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0),
+
   // Upload & Storage
   uploadDir: optionalEnv("UPLOAD_DIR", "./uploads"),
   iconDir: optionalEnv("ICON_DIR", "./uploads/icons"),
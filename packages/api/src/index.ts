@@ -18,6 +18,9 @@ import routes from "./routes/index.js";
 // Import utilities
 import { startCleanupScheduler, stopCleanupScheduler } from "./utils/cleanup.js";
 
+// Import services
+import { startSyncWorker, stopSyncWorker } from "./services/syncJobs.js";
+
 async function main() {
   const server = buildServer();
 
@@ -37,10 +40,14 @@ async function main() {
   // Start cleanup scheduler for upload sessions
   startCleanupScheduler(server);
 
+  // Start the worker that runs recipe sync and verification jobs
+  startSyncWorker(server);
+
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     server.log.info(`Received ${signal}, shutting down gracefully...`);
     stopCleanupScheduler(server);
+    stopSyncWorker(server);
     await server.close();
     process.exit(0);
   };
@@ -0,0 +1,294 @@
+/**
+ * Production chain routes
+ *
+ * Generates ready-to-load flowcharts and production plans from the
+ * recipes of a modpack version.
+ */
+
+import type { FastifyPluginAsync } from "fastify";
+import { isEnergyConfigOverrides, PivotLimitError, TableauTooLargeError } from "@recipeflow/shared";
+import type {
+  ProductionPlan,
+  ProductionPlanRequest,
+  ProductionTreeRequest,
+  ProductionTreeResponse,
+} from "@recipeflow/shared";
+import { findModpackVersion } from "../services/modpackLookup.js";
+import { generateProductionTree } from "../services/productionTree.js";
+import { planVersionProduction, UnknownRecipesError } from "../services/productionPlan.js";
+
+// ==================== TYPES ====================
+
+interface ChainVersionParams {
+  slug: string;
+  version: string;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_MAX_DEPTH = 10;
+const MAX_DEPTH_LIMIT = 32;
+const MAX_PLAN_RECIPES = 500;
+const PLAN_OBJECTIVES = ["raw", "energy"];
+
+// ==================== ROUTES ====================
+
+const chainRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * Generate a production tree for a target item
+   *
+   * POST /modpacks/:slug/versions/:version/production-tree
+   *
+   * Walks recipes backwards from the target to raw materials and returns
+   * the chain as FlowchartData plus the raw material rates it consumes.
+   */
+  fastify.post<{
+    Params: ChainVersionParams;
+    Body: ProductionTreeRequest;
+  }>(
+    "/:slug/versions/:version/production-tree",
+    {
+      config: {
+        rateLimit: {
+          max: 20,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request, reply) => {
+      const { slug, version } = request.params;
+      const body = request.body ?? ({} as ProductionTreeRequest);
+      const maxDepth = body.maxDepth ?? DEFAULT_MAX_DEPTH;
+      const rawItems = body.rawItems ?? [];
+      const recipePreferences = body.recipePreferences ?? {};
+
+      if (!body.targetItem || typeof body.targetItem !== "string") {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_TARGET_ITEM",
+            message: "Missing or invalid targetItem",
+          },
+        });
+      }
+
+      if (typeof body.rate !== "number" || !Number.isFinite(body.rate) || body.rate <= 0) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_RATE",
+            message: "rate must be a positive number",
+          },
+        });
+      }
+
+      if (!Number.isInteger(maxDepth) || maxDepth < 1 || maxDepth > MAX_DEPTH_LIMIT) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_MAX_DEPTH",
+            message: `maxDepth must be an integer between 1 and ${MAX_DEPTH_LIMIT}`,
+          },
+        });
+      }
+
+      if (!Array.isArray(rawItems) || rawItems.some((id) => typeof id !== "string")) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_RAW_ITEMS",
+            message: "rawItems must be an array of item ids",
+          },
+        });
+      }
+
+      if (
+        typeof recipePreferences !== "object" ||
+        Array.isArray(recipePreferences) ||
+        Object.values(recipePreferences).some((id) => typeof id !== "string")
+      ) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_RECIPE_PREFERENCES",
+            message: "recipePreferences must map item ids to recipe ids",
+          },
+        });
+      }
+
+      const modpackVersion = await findModpackVersion(fastify, slug, version);
+      if (!modpackVersion) {
+        return reply.status(404).send({
+          error: {
+            code: "VERSION_NOT_FOUND",
+            message: `Version '${version}' of modpack '${slug}' not found`,
+          },
+        });
+      }
+
+      const response: ProductionTreeResponse = await generateProductionTree(
+        fastify,
+        modpackVersion.id,
+        {
+          targetItem: body.targetItem,
+          rate: body.rate,
+          maxDepth,
+          rawItems,
+          recipePreferences,
+        },
+      );
+
+      return response;
+    },
+  );
+
+  /**
+   * Plan production across alternative recipes
+   *
+   * POST /modpacks/:slug/versions/:version/production-plan
+   *
+   * Solves for craft rates and machine counts meeting the target rates
+   * using only the given recipes, minimizing raw inputs or EU.
+   */
+  fastify.post<{
+    Params: ChainVersionParams;
+    Body: ProductionPlanRequest;
+  }>(
+    "/:slug/versions/:version/production-plan",
+    {
+      config: {
+        rateLimit: {
+          max: 20,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request, reply) => {
+      const { slug, version } = request.params;
+      const body = request.body ?? ({} as ProductionPlanRequest);
+      const rawItems = body.rawItems ?? [];
+      const rawCosts = body.rawCosts ?? {};
+
+      if (
+        !body.targets ||
+        typeof body.targets !== "object" ||
+        Array.isArray(body.targets) ||
+        Object.keys(body.targets).length === 0 ||
+        Object.values(body.targets).some(
+          (rate) => typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0,
+        )
+      ) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_TARGETS",
+            message: "targets must map item ids to positive rates",
+          },
+        });
+      }
+
+      if (
+        !Array.isArray(body.recipeIds) ||
+        body.recipeIds.length === 0 ||
+        body.recipeIds.length > MAX_PLAN_RECIPES ||
+        body.recipeIds.some((id) => typeof id !== "string")
+      ) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_RECIPE_IDS",
+            message: `recipeIds must be an array of 1 to ${MAX_PLAN_RECIPES} recipe ids`,
+          },
+        });
+      }
+
+      if (body.objective !== undefined && !PLAN_OBJECTIVES.includes(body.objective)) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_OBJECTIVE",
+            message: "objective must be 'raw' or 'energy'",
+          },
+        });
+      }
+
+      if (!Array.isArray(rawItems) || rawItems.some((id) => typeof id !== "string")) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_RAW_ITEMS",
+            message: "rawItems must be an array of item ids",
+          },
+        });
+      }
+
+      if (
+        typeof rawCosts !== "object" ||
+        Array.isArray(rawCosts) ||
+        Object.values(rawCosts).some(
+          (cost) => typeof cost !== "number" || !Number.isFinite(cost) || cost < 0,
+        )
+      ) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_RAW_COSTS",
+            message: "rawCosts must map item ids to non-negative numbers",
+          },
+        });
+      }
+
+      if (body.energyConfig !== undefined && !isEnergyConfigOverrides(body.energyConfig)) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_ENERGY_CONFIG",
+            message: "energyConfig must map known ratio names to positive numbers",
+          },
+        });
+      }
+
+      const modpackVersion = await findModpackVersion(fastify, slug, version);
+      if (!modpackVersion) {
+        return reply.status(404).send({
+          error: {
+            code: "VERSION_NOT_FOUND",
+            message: `Version '${version}' of modpack '${slug}' not found`,
+          },
+        });
+      }
+
+      try {
+        const response: ProductionPlan = await planVersionProduction(fastify, modpackVersion, {
+          targets: body.targets,
+          recipeIds: body.recipeIds,
+          objective: body.objective,
+          rawItems,
+          rawCosts,
+          energyConfig: body.energyConfig,
+        });
+
+        return response;
+      } catch (error) {
+        if (error instanceof UnknownRecipesError) {
+          return reply.status(400).send({
+            error: {
+              code: "UNKNOWN_RECIPES",
+              message: error.message,
+              details: { recipeIds: error.recipeIds },
+            },
+          });
+        }
+        if (error instanceof TableauTooLargeError) {
+          return reply.status(400).send({
+            error: {
+              code: "PLAN_TOO_LARGE",
+              message: "Too many recipes and items to plan at once; narrow the recipe set",
+              details: { rows: error.rows, columns: error.columns },
+            },
+          });
+        }
+        if (error instanceof PivotLimitError) {
+          return reply.status(422).send({
+            error: {
+              code: "PLAN_NOT_SOLVED",
+              message: "The plan could not be solved within the solver's iteration limit",
+            },
+          });
+        }
+        throw error;
+      }
+    },
+  );
+};
+
+export default chainRoutes;
@@ -0,0 +1,141 @@
+/**
+ * Recipe diff routes
+ *
+ * What changed in a modpack's recipes between two of its versions.
+ */
+
+import type { FastifyPluginAsync } from "fastify";
+import type { RecipeChangeKind, RecipeDiffGroupBy, RecipeDiffResponse } from "@recipeflow/shared";
+import { findModpackVersion } from "../services/modpackLookup.js";
+import { diffRecipeVersions } from "../services/recipeDiff.js";
+import { parsePagination, buildPagination } from "../utils/pagination.js";
+
+// ==================== TYPES ====================
+
+interface DiffParams {
+  slug: string;
+}
+
+interface DiffQuery {
+  from?: string;
+  to?: string;
+  groupBy?: string;
+  change?: string;
+  sourceMod?: string;
+  type?: string;
+  page?: string;
+  limit?: string;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
+
+// ==================== ROUTES ====================
+
+const diffRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * Diff the recipes of two versions
+   *
+   * GET /modpacks/:slug/diff
+   *
+   * Query params: from and to (required version strings), groupBy
+   * ("sourceMod" or "type", adds change counts per group), change
+   * ("added", "removed" or "changed"), sourceMod, type, page (1-based),
+   * limit (max 200). Changed recipes list their field-level changes.
+   */
+  fastify.get<{
+    Params: DiffParams;
+    Querystring: DiffQuery;
+  }>(
+    "/:slug/diff",
+    {
+      config: {
+        rateLimit: {
+          max: 20,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request, reply) => {
+      const { slug } = request.params;
+      const query = request.query;
+
+      if (!query.from || !query.to) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_QUERY",
+            message: "from and to versions are required",
+          },
+        });
+      }
+
+      if (query.groupBy !== undefined && !["sourceMod", "type"].includes(query.groupBy)) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_GROUP_BY",
+            message: 'groupBy must be "sourceMod" or "type"',
+          },
+        });
+      }
+
+      if (query.change !== undefined && !["added", "removed", "changed"].includes(query.change)) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_CHANGE",
+            message: 'change must be "added", "removed" or "changed"',
+          },
+        });
+      }
+
+      const paging = parsePagination(query, {
+        defaultLimit: DEFAULT_PAGE_LIMIT,
+        maxLimit: MAX_PAGE_LIMIT,
+      });
+      if ("error" in paging) {
+        return reply.status(400).send(paging);
+      }
+
+      const [fromVersion, toVersion] = await Promise.all([
+        findModpackVersion(fastify, slug, query.from),
+        findModpackVersion(fastify, slug, query.to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        const missing = fromVersion ? query.to : query.from;
+        return reply.status(404).send({
+          error: {
+            code: "VERSION_NOT_FOUND",
+            message: `Version '${missing}' of modpack '${slug}' not found`,
+          },
+        });
+      }
+
+      const result = await diffRecipeVersions(
+        fastify,
+        fromVersion.id,
+        toVersion.id,
+        {
+          change: query.change as RecipeChangeKind | undefined,
+          sourceMod: query.sourceMod,
+          type: query.type,
+        },
+        query.groupBy as RecipeDiffGroupBy | undefined,
+        paging,
+      );
+
+      const response: RecipeDiffResponse = {
+        from: query.from,
+        to: query.to,
+        summary: result.summary,
+        ...(result.groups ? { groups: result.groups } : {}),
+        recipes: result.recipes,
+        pagination: buildPagination(paging, result.total),
+      };
+
+      return response;
+    },
+  );
+};
+
+export default diffRoutes;
@@ -2,11 +2,13 @@ import type { FastifyPluginAsync } from "fastify";
 import healthRoutes from "./health.js";
 import authRoutes from "./auth/index.js";
 import modpackRoutes from "./modpacks/index.js";
+import jobRoutes from "./jobs.js";
 
 const routes: FastifyPluginAsync = async (fastify) => {
   await fastify.register(healthRoutes);
   await fastify.register(authRoutes, { prefix: "/auth" });
   await fastify.register(modpackRoutes, { prefix: "/modpacks" });
+  await fastify.register(jobRoutes, { prefix: "/jobs" });
 };
 
 export default routes;
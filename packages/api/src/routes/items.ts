@@ -0,0 +1,122 @@
+/**
+ * Item query routes
+ *
+ * Item search for the flowchart editor's item pickers.
+ */
+
+import type { FastifyPluginAsync } from "fastify";
+import { parseSearchQuery, isEmptySearchQuery, SearchQueryError } from "@recipeflow/shared";
+import type { ItemSearchResponse, SearchQuery } from "@recipeflow/shared";
+import { findModpackVersion } from "../services/modpackLookup.js";
+import { searchItems } from "../services/itemQuery.js";
+import { parsePagination, buildPagination } from "../utils/pagination.js";
+
+// ==================== TYPES ====================
+
+interface ItemVersionParams {
+  slug: string;
+  version: string;
+}
+
+interface ItemSearchQuery {
+  q?: string;
+  tooltip?: string;
+  page?: string;
+  limit?: string;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_PAGE_LIMIT = 20;
+const MAX_PAGE_LIMIT = 100;
+const MAX_QUERY_LENGTH = 200;
+
+// ==================== ROUTES ====================
+
+const itemRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * Search items by display name, item id and tooltip
+   *
+   * GET /modpacks/:slug/versions/:version/items/search
+   *
+   * Query params: q (required, JEI-style syntax such as
+   * `sodium @gtceu $NaOH`), tooltip ("true" to also match plain text
+   * against tooltip lines), page (1-based), limit (max 100).
+   */
+  fastify.get<{
+    Params: ItemVersionParams;
+    Querystring: ItemSearchQuery;
+  }>("/:slug/versions/:version/items/search", async (request, reply) => {
+    const { slug, version } = request.params;
+    const query = request.query;
+    const q = query.q?.trim() ?? "";
+
+    if (q.length === 0 || q.length > MAX_QUERY_LENGTH) {
+      return reply.status(400).send({
+        error: {
+          code: "INVALID_QUERY",
+          message: `q must be between 1 and ${MAX_QUERY_LENGTH} characters`,
+        },
+      });
+    }
+
+    let searchQuery: SearchQuery;
+    try {
+      searchQuery = parseSearchQuery(q);
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_QUERY",
+            message: error.message,
+            details: { position: error.position },
+          },
+        });
+      }
+      throw error;
+    }
+
+    if (isEmptySearchQuery(searchQuery)) {
+      return reply.status(400).send({
+        error: {
+          code: "INVALID_QUERY",
+          message: "q must contain at least one search term",
+        },
+      });
+    }
+
+    const paging = parsePagination(query, {
+      defaultLimit: DEFAULT_PAGE_LIMIT,
+      maxLimit: MAX_PAGE_LIMIT,
+    });
+    if ("error" in paging) {
+      return reply.status(400).send(paging);
+    }
+
+    const modpackVersion = await findModpackVersion(fastify, slug, version);
+    if (!modpackVersion) {
+      return reply.status(404).send({
+        error: {
+          code: "VERSION_NOT_FOUND",
+          message: `Version '${version}' of modpack '${slug}' not found`,
+        },
+      });
+    }
+
+    const result = await searchItems(
+      fastify,
+      modpackVersion,
+      { query: searchQuery, includeTooltip: query.tooltip === "true" },
+      paging,
+    );
+
+    const response: ItemSearchResponse = {
+      items: result.items,
+      pagination: buildPagination(paging, result.total),
+    };
+
+    return response;
+  });
+};
+
+export default itemRoutes;
@@ -0,0 +1,130 @@
+/**
+ * Background job routes
+ *
+ * Lets clients follow recipe syncs and manifest verification, either by
+ * polling or through a Server-Sent Events stream.
+ */
+
+import type { FastifyPluginAsync } from "fastify";
+import { requireAuth } from "../middleware/auth.js";
+import { getSyncJob, isJobFinished, subscribeToSyncJob } from "../services/syncJobs.js";
+import type { SyncJobResponse } from "@recipeflow/shared";
+
+// ==================== TYPES ====================
+
+interface JobParams {
+  id: string;
+}
+
+// ==================== CONSTANTS ====================
+
+// Comment lines keep idle proxies from closing the stream
+const KEEPALIVE_INTERVAL_MS = 15 * 1000;
+
+// ==================== ROUTES ====================
+
+const jobRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * Get a job
+   *
+   * GET /jobs/:id
+   *
+   * Returns the job's status, phase, row counts and, once finished, its
+   * result or error. Only the user who started a job can see it.
+   */
+  fastify.get<{
+    Params: JobParams;
+  }>(
+    "/:id",
+    {
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const job = await getSyncJob(fastify, request.params.id, request.authenticatedUser!.id);
+
+      if (!job) {
+        return reply.status(404).send({
+          error: {
+            code: "JOB_NOT_FOUND",
+            message: "Job not found",
+          },
+        });
+      }
+
+      const response: SyncJobResponse = job;
+      return response;
+    },
+  );
+
+  /**
+   * Follow a job
+   *
+   * GET /jobs/:id/events
+   *
+   * Server-Sent Events stream with one "job" event (a SyncJobResponse)
+   * now and after every change. The stream ends once the job finishes.
+   */
+  fastify.get<{
+    Params: JobParams;
+  }>(
+    "/:id/events",
+    {
+      preHandler: requireAuth,
+      config: {
+        rateLimit: false,
+      },
+    },
+    async (request, reply) => {
+      const jobId = request.params.id;
+
+      // Subscribe before reading the job so no update falls in between
+      const pending: SyncJobResponse[] = [];
+      let send = (job: SyncJobResponse) => {
+        pending.push(job);
+      };
+      const unsubscribe = subscribeToSyncJob(jobId, (job) => send(job));
+
+      const job = await getSyncJob(fastify, jobId, request.authenticatedUser!.id);
+      if (!job) {
+        unsubscribe();
+        return reply.status(404).send({
+          error: {
+            code: "JOB_NOT_FOUND",
+            message: "Job not found",
+          },
+        });
+      }
+
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+
+      const keepalive = setInterval(() => {
+        reply.raw.write(": keepalive\n\n");
+      }, KEEPALIVE_INTERVAL_MS);
+
+      const close = () => {
+        clearInterval(keepalive);
+        unsubscribe();
+        if (!reply.raw.writableEnded) reply.raw.end();
+      };
+      request.raw.on("close", close);
+
+      send = (update: SyncJobResponse) => {
+        reply.raw.write(`event: job\ndata: ${JSON.stringify(update)}\n\n`);
+        if (isJobFinished(update)) close();
+      };
+      send(job);
+
+      // Of the updates that raced the read, only a final one can't be
+      // superseded by a later event
+      const finished = pending.find(isJobFinished);
+      if (finished && !reply.raw.writableEnded) send(finished);
+    },
+  );
+};
+
+export default jobRoutes;
@@ -6,19 +6,42 @@
 
 import type { FastifyPluginAsync } from "fastify";
 import recipeRoutes from "../recipes.js";
+import itemRoutes from "../items.js";
+import chainRoutes from "../chains.js";
 import uploadRoutes from "../upload.js";
+import syncRoutes from "../syncs.js";
+import diffRoutes from "../diff.js";
 
 const modpackRoutes: FastifyPluginAsync = async (fastify) => {
-  // Recipe sync routes
+  // Recipe sync and query routes
   // POST /modpacks/:slug/versions/:version/recipes/sync
+  // POST /modpacks/:slug/versions/:version/recipes/sync/plan
+  // GET  /modpacks/:slug/versions/:version/recipes
   await fastify.register(recipeRoutes);
 
+  // Item query routes
+  // GET  /modpacks/:slug/versions/:version/items/search
+  await fastify.register(itemRoutes);
+
+  // Production chain routes
+  // POST /modpacks/:slug/versions/:version/production-tree
+  // POST /modpacks/:slug/versions/:version/production-plan
+  await fastify.register(chainRoutes);
+
   // Chunked upload routes
   // POST /modpacks/:slug/versions/:version/upload/start
   // POST /modpacks/:slug/versions/:version/upload/:sessionId/chunk/:chunkIndex
   // GET  /modpacks/:slug/versions/:version/upload/:sessionId/status
   // POST /modpacks/:slug/versions/:version/upload/:sessionId/complete
   await fastify.register(uploadRoutes);
+
+  // Sync history routes
+  // GET  /modpacks/:slug/versions/:version/syncs
+  await fastify.register(syncRoutes);
+
+  // Recipe diff routes
+  // GET  /modpacks/:slug/diff
+  await fastify.register(diffRoutes);
 };
 
 export default modpackRoutes;
@@ -1,23 +1,63 @@
 /**
- * Recipe sync routes
+ * Recipe sync and query routes
  *
- * Handles recipe synchronization from the companion mod.
+ * Handles recipe synchronization from the companion mod and
+ * recipe lookups for the flowchart editor.
  */
 
 import type { FastifyPluginAsync } from "fastify";
 import { requireAuth } from "../middleware/auth.js";
-import { syncRecipes } from "../services/recipeImport.js";
-import { verifyModpackVersion } from "../services/manifestVerification.js";
-import type { RecipeSyncRequest, RecipeSyncResponse } from "@recipeflow/shared";
+import {
+  checkRecipeSyncRequest,
+  ContentHashMismatchError,
+  planRecipeSync,
+} from "../services/recipeImport.js";
+import { enqueueRecipeSync, SyncQueueFullError } from "../services/syncJobs.js";
+import { clientVersionOf } from "../services/syncEvents.js";
+import { findModpackVersion } from "../services/modpackLookup.js";
+import { queryRecipes } from "../services/recipeQuery.js";
+import {
+  isVoltageTier,
+  parseSearchQuery,
+  resolveEnergyConfig,
+  SearchQueryError,
+} from "@recipeflow/shared";
+import type {
+  EnergyConfig,
+  RecipeSyncPlanRequest,
+  RecipeSyncPlanResponse,
+  RecipeSyncJobResponse,
+  RecipeSyncRequest,
+  RecipeListResponse,
+  SearchQuery,
+} from "@recipeflow/shared";
 import { isValidHash } from "../utils/hash.js";
+import { parsePagination, buildPagination } from "../utils/pagination.js";
 
 // ==================== TYPES ====================
 
-interface RecipeSyncParams {
+interface RecipeVersionParams {
   slug: string;
   version: string;
 }
 
+interface RecipeListQuery {
+  q?: string;
+  outputItem?: string;
+  inputItem?: string;
+  type?: string;
+  machineType?: string;
+  voltageTier?: string;
+  sourceMod?: string;
+  page?: string;
+  limit?: string;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
+
 // ==================== ROUTES ====================
 
 const recipeRoutes: FastifyPluginAsync = async (fastify) => {
@@ -27,10 +67,17 @@ const recipeRoutes: FastifyPluginAsync = async (fastify) => {
    * POST /modpacks/:slug/versions/:version/recipes/sync
    *
    * Receives recipe data from the companion mod and stores it in the database.
-   * Creates the modpack and version if they don't exist.
+   * contentHash must match the recipes sent (see canonicalRecipeSetJson).
+   * Creates the modpack and version if they don't exist. Invalid recipe data
+   * rejects the sync in strict mode and is stored flagged in lenient mode.
+   * Recipes no longer in the export are tombstoned or deleted (removal mode).
+   *
+   * Only structural checks run in the request; the sync itself is queued
+   * and answered with 202 and a job id to follow at /jobs/:id. A full queue
+   * answers 503, a user with too many pending syncs 429.
    */
   fastify.post<{
-    Params: RecipeSyncParams;
+    Params: RecipeVersionParams;
     Body: RecipeSyncRequest;
   }>(
     "/:slug/versions/:version/recipes/sync",
@@ -51,6 +98,65 @@ const recipeRoutes: FastifyPluginAsync = async (fastify) => {
       const body = request.body;
 
       // Validate request body
+      const invalid = checkRecipeSyncRequest(body);
+      if (invalid) {
+        return reply.status(400).send(invalid);
+      }
+
+      try {
+        const job = await enqueueRecipeSync(fastify, {
+          modpackSlug: slug,
+          version,
+          userId,
+          payload: body,
+          clientVersion: clientVersionOf(request),
+        });
+
+        const response: RecipeSyncJobResponse = { jobId: job.id, status: job.status };
+        return reply.status(202).send(response);
+      } catch (error) {
+        if (error instanceof SyncQueueFullError) {
+          return reply.status(error.scope === "user" ? 429 : 503).send({
+            error: {
+              code: error.scope === "user" ? "SYNC_LIMIT_REACHED" : "SYNC_QUEUE_FULL",
+              message: error.message,
+            },
+          });
+        }
+        throw error;
+      }
+    },
+  );
+
+  /**
+   * Plan a delta recipe sync
+   *
+   * POST /modpacks/:slug/versions/:version/recipes/sync/plan
+   *
+   * Receives per-recipe hashes and returns the ids the server is missing
+   * or holds a different version of. The companion mod then sends only
+   * those recipes to the sync endpoint with delta: true.
+   */
+  fastify.post<{
+    Params: RecipeVersionParams;
+    Body: RecipeSyncPlanRequest;
+  }>(
+    "/:slug/versions/:version/recipes/sync/plan",
+    {
+      preHandler: requireAuth,
+      config: {
+        rateLimit: {
+          max: 5,
+          timeWindow: "1 minute",
+        },
+      },
+      // Hashes only, but a large pack still has tens of thousands (20MB)
+      bodyLimit: 20 * 1024 * 1024,
+    },
+    async (request, reply) => {
+      const { slug, version } = request.params;
+      const body = request.body;
+
       if (!body.contentHash || !isValidHash(body.contentHash)) {
         return reply.status(400).send({
           error: {
@@ -69,97 +175,151 @@ const recipeRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      if (!Array.isArray(body.recipes)) {
+      if (typeof body.recipeCount !== "number" || body.recipeCount < 0) {
         return reply.status(400).send({
           error: {
-            code: "INVALID_RECIPES",
-            message: "Missing or invalid recipes array",
+            code: "INVALID_RECIPE_COUNT",
+            message: "Missing or invalid recipeCount",
           },
         });
       }
 
-      if (typeof body.recipeCount !== "number" || body.recipeCount < 0) {
+      if (!Array.isArray(body.recipes)) {
         return reply.status(400).send({
           error: {
-            code: "INVALID_RECIPE_COUNT",
-            message: "Missing or invalid recipeCount",
+            code: "INVALID_RECIPE_HASHES",
+            message: "Missing or invalid recipes array",
           },
         });
       }
 
-      // Validate each recipe has required fields
-      for (const [i, recipe] of body.recipes.entries()) {
-        if (!recipe || !recipe.recipeId || typeof recipe.recipeId !== "string") {
+      for (const [i, entry] of body.recipes.entries()) {
+        if (!entry || !entry.recipeId || typeof entry.recipeId !== "string") {
           return reply.status(400).send({
             error: {
-              code: "INVALID_RECIPE",
-              message: `Recipe at index ${i} missing or invalid recipeId`,
+              code: "INVALID_RECIPE_HASHES",
+              message: `Entry at index ${i} missing or invalid recipeId`,
             },
           });
         }
-        if (!recipe.type || typeof recipe.type !== "string") {
+        if (typeof entry.hash !== "string" || !isValidHash(entry.hash)) {
           return reply.status(400).send({
             error: {
-              code: "INVALID_RECIPE",
-              message: `Recipe at index ${i} missing or invalid type`,
+              code: "INVALID_RECIPE_HASHES",
+              message: `Entry at index ${i} missing or invalid hash (expected sha256:...)`,
             },
           });
         }
-        if (!recipe.sourceMod || typeof recipe.sourceMod !== "string") {
-          return reply.status(400).send({
-            error: {
-              code: "INVALID_RECIPE",
-              message: `Recipe at index ${i} missing or invalid sourceMod`,
-            },
-          });
-        }
-        if (!recipe.data || typeof recipe.data !== "object") {
+      }
+
+      try {
+        const response: RecipeSyncPlanResponse = await planRecipeSync(fastify, slug, version, body);
+        return response;
+      } catch (error) {
+        if (error instanceof ContentHashMismatchError) {
           return reply.status(400).send({
             error: {
-              code: "INVALID_RECIPE",
-              message: `Recipe at index ${i} missing or invalid data`,
+              code: "CONTENT_HASH_MISMATCH",
+              message: "contentHash does not match the recipes sent",
+              details: { expected: error.expected, received: error.received },
             },
           });
         }
-      }
 
-      try {
-        const result = await syncRecipes(fastify, slug, version, userId, body);
-
-        // Attempt manifest verification in the background
-        // Don't block the response on this
-        verifyModpackVersion(fastify, result.modpackVersionId).catch((error) => {
-          fastify.log.warn(
-            { error, versionId: result.modpackVersionId },
-            "Manifest verification failed",
-          );
-        });
-
-        const response: RecipeSyncResponse = {
-          success: true,
-          stats: {
-            received: result.received,
-            new: result.new,
-            updated: result.updated,
-            unchanged: result.unchanged,
-          },
-          contentHash: result.contentHash,
-          version: result.version,
-        };
-
-        return response;
-      } catch (error) {
-        request.log.error(error, "Recipe sync failed");
+        request.log.error(error, "Recipe sync planning failed");
 
         return reply.status(500).send({
           error: {
-            code: "SYNC_FAILED",
-            message: "Failed to sync recipes",
+            code: "SYNC_PLAN_FAILED",
+            message: "Failed to plan recipe sync",
           },
         });
       }
     },
   );
+
+  /**
+   * List recipes for a modpack version
+   *
+   * GET /modpacks/:slug/versions/:version/recipes
+   *
+   * Query params: q (JEI-style search, e.g. `steel machine:electric_blast_furnace`),
+   * outputItem, inputItem, type, machineType, voltageTier, sourceMod,
+   * page (1-based), limit (max 200).
+   */
+  fastify.get<{
+    Params: RecipeVersionParams;
+    Querystring: RecipeListQuery;
+  }>("/:slug/versions/:version/recipes", async (request, reply) => {
+    const { slug, version } = request.params;
+    const query = request.query;
+
+    const paging = parsePagination(query, {
+      defaultLimit: DEFAULT_PAGE_LIMIT,
+      maxLimit: MAX_PAGE_LIMIT,
+    });
+    if ("error" in paging) {
+      return reply.status(400).send(paging);
+    }
+
+    if (query.voltageTier !== undefined && !isVoltageTier(query.voltageTier)) {
+      return reply.status(400).send({
+        error: {
+          code: "INVALID_VOLTAGE_TIER",
+          message: `Unknown voltage tier '${query.voltageTier}'`,
+        },
+      });
+    }
+
+    let search: SearchQuery | undefined;
+    try {
+      search = query.q ? parseSearchQuery(query.q) : undefined;
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_QUERY",
+            message: error.message,
+            details: { position: error.position },
+          },
+        });
+      }
+      throw error;
+    }
+
+    const modpackVersion = await findModpackVersion(fastify, slug, version);
+    if (!modpackVersion) {
+      return reply.status(404).send({
+        error: {
+          code: "VERSION_NOT_FOUND",
+          message: `Version '${version}' of modpack '${slug}' not found`,
+        },
+      });
+    }
+
+    const result = await queryRecipes(
+      fastify,
+      modpackVersion.id,
+      {
+        outputItem: query.outputItem,
+        inputItem: query.inputItem,
+        type: query.type,
+        machineType: query.machineType,
+        voltageTier: query.voltageTier,
+        sourceMod: query.sourceMod,
+        search,
+      },
+      paging,
+      resolveEnergyConfig(modpackVersion.energyConfig as Partial<EnergyConfig> | null),
+    );
+
+    const response: RecipeListResponse = {
+      recipes: result.recipes,
+      pagination: buildPagination(paging, result.total),
+    };
+
+    return response;
+  });
 };
 
 export default recipeRoutes;
@@ -0,0 +1,105 @@
+/**
+ * Sync history routes
+ *
+ * Audit trail of recipe syncs and uploads for a modpack version.
+ */
+
+import type { FastifyPluginAsync } from "fastify";
+import type { SyncEventListResponse } from "@recipeflow/shared";
+import { requireAuth } from "../middleware/auth.js";
+import { findModpackVersion } from "../services/modpackLookup.js";
+import { canViewSyncEvents, listSyncEvents } from "../services/syncEvents.js";
+import { parsePagination, buildPagination } from "../utils/pagination.js";
+
+// ==================== TYPES ====================
+
+interface SyncVersionParams {
+  slug: string;
+  version: string;
+}
+
+interface SyncListQuery {
+  page?: string;
+  limit?: string;
+}
+
+// ==================== CONSTANTS ====================
+
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
+
+// ==================== ROUTES ====================
+
+const syncRoutes: FastifyPluginAsync = async (fastify) => {
+  /**
+   * List the sync history of a version, newest first
+   *
+   * GET /modpacks/:slug/versions/:version/syncs
+   *
+   * One entry per recipe sync job and upload completion, failed ones
+   * included. Only admins and users who synced the version may list it.
+   * Query params: page (1-based), limit (max 200).
+   */
+  fastify.get<{
+    Params: SyncVersionParams;
+    Querystring: SyncListQuery;
+  }>(
+    "/:slug/versions/:version/syncs",
+    {
+      preHandler: requireAuth,
+      config: {
+        rateLimit: {
+          max: 30,
+          timeWindow: "1 minute",
+        },
+      },
+    },
+    async (request, reply) => {
+      const { slug, version } = request.params;
+
+      const paging = parsePagination(request.query, {
+        defaultLimit: DEFAULT_PAGE_LIMIT,
+        maxLimit: MAX_PAGE_LIMIT,
+      });
+      if ("error" in paging) {
+        return reply.status(400).send(paging);
+      }
+
+      const modpackVersion = await findModpackVersion(fastify, slug, version);
+      if (!modpackVersion) {
+        return reply.status(404).send({
+          error: {
+            code: "VERSION_NOT_FOUND",
+            message: `Version '${version}' of modpack '${slug}' not found`,
+          },
+        });
+      }
+
+      const allowed = await canViewSyncEvents(
+        fastify,
+        slug,
+        version,
+        request.authenticatedUser!.id,
+      );
+      if (!allowed) {
+        return reply.status(403).send({
+          error: {
+            code: "FORBIDDEN",
+            message: "Not authorized to view this version's sync history",
+          },
+        });
+      }
+
+      const result = await listSyncEvents(fastify, slug, version, paging);
+
+      const response: SyncEventListResponse = {
+        syncs: result.syncs,
+        pagination: buildPagination(paging, result.total),
+      };
+
+      return response;
+    },
+  );
+};
+
+export default syncRoutes;
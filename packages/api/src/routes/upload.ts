@@ -1,8 +1,8 @@
 /**
  * Chunked upload routes
  *
- * Handles large file uploads (icons, item metadata) via a chunked protocol.
- * Supports resumable uploads with hash verification.
+ * Handles large file uploads (icons, item metadata, recipe exports) via a
+ * chunked protocol. Supports resumable uploads with hash verification.
  */
 
 import type { FastifyPluginAsync } from "fastify";
@@ -21,14 +21,19 @@ import {
 } from "../services/uploadSession.js";
 import { iconStorage } from "../services/iconStorage.js";
 import { parseItemsFile, importItems, linkIconsToItems } from "../services/itemImport.js";
+import { InvalidRecipesFileError, parseRecipesFile } from "../services/recipeImport.js";
+import { enqueueRecipeSync, SyncQueueFullError } from "../services/syncJobs.js";
+import { clientVersionOf, recordSyncEvent } from "../services/syncEvents.js";
 import type {
   UploadStartRequest,
   UploadStartResponse,
   ChunkUploadResponse,
   UploadStatusResponse,
   UploadCompleteResponse,
+  UploadType,
+  SyncEventStats,
 } from "@recipeflow/shared";
-import { isValidHash } from "../utils/hash.js";
+import { hashesMatch, isValidHash } from "../utils/hash.js";
 
 // ==================== TYPES ====================
 
@@ -46,6 +51,10 @@ interface SessionParams extends UploadParams {
   sessionId: string;
 }
 
+// ==================== CONSTANTS ====================
+
+const UPLOAD_TYPES: UploadType[] = ["icons", "items", "recipes"];
+
 // ==================== ROUTES ====================
 
 const uploadRoutes: FastifyPluginAsync = async (fastify) => {
@@ -53,6 +62,10 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
    * Start a chunked upload session
    *
    * POST /modpacks/:slug/versions/:version/upload/start
+   *
+   * Recipe uploads create the modpack and version (from manifestHash) when
+   * they complete, like a direct sync; other uploads need the version to
+   * exist.
    */
   fastify.post<{
     Params: UploadParams;
@@ -70,15 +83,24 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
     },
     async (request, reply) => {
       const { slug, version } = request.params;
-      const { type, totalSize, totalChunks, chunkSize, finalHash } = request.body;
+      const { type, totalSize, totalChunks, chunkSize, finalHash, manifestHash } = request.body;
       const userId = request.authenticatedUser!.id;
 
       // Validate type
-      if (!["icons", "items"].includes(type)) {
+      if (!UPLOAD_TYPES.includes(type)) {
         return reply.status(400).send({
           error: {
             code: "INVALID_TYPE",
-            message: "Type must be 'icons' or 'items'",
+            message: "Type must be 'icons', 'items' or 'recipes'",
+          },
+        });
+      }
+
+      if (type === "recipes" && (!manifestHash || !isValidHash(manifestHash))) {
+        return reply.status(400).send({
+          error: {
+            code: "INVALID_MANIFEST_HASH",
+            message: "Recipe uploads need a valid manifestHash (expected sha256:...)",
           },
         });
       }
@@ -121,40 +143,48 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
-      // Find modpack and version
-      const modpack = await fastify.prisma.modpack.findUnique({
-        where: { slug },
-      });
-
-      if (!modpack) {
-        return reply.status(404).send({
-          error: {
-            code: "MODPACK_NOT_FOUND",
-            message: `Modpack '${slug}' not found`,
-          },
+      // Recipe uploads bring their own version, created once they complete
+      let modpackVersionId: string | null = null;
+      if (type !== "recipes") {
+        // Find modpack and version
+        const modpack = await fastify.prisma.modpack.findUnique({
+          where: { slug },
         });
-      }
 
-      // Find version (must have been created via recipe sync first)
-      const modpackVersion = await fastify.prisma.modpackVersion.findFirst({
-        where: {
-          modpackId: modpack.id,
-          version,
-        },
-      });
+        if (!modpack) {
+          return reply.status(404).send({
+            error: {
+              code: "MODPACK_NOT_FOUND",
+              message: `Modpack '${slug}' not found`,
+            },
+          });
+        }
 
-      if (!modpackVersion) {
-        return reply.status(404).send({
-          error: {
-            code: "VERSION_NOT_FOUND",
-            message: `Version '${version}' not found. Sync recipes first.`,
+        // Find version (must have been created via recipe sync first)
+        const modpackVersion = await fastify.prisma.modpackVersion.findFirst({
+          where: {
+            modpackId: modpack.id,
+            version,
           },
         });
+
+        if (!modpackVersion) {
+          return reply.status(404).send({
+            error: {
+              code: "VERSION_NOT_FOUND",
+              message: `Version '${version}' not found. Sync recipes first.`,
+            },
+          });
+        }
+        modpackVersionId = modpackVersion.id;
       }
 
       try {
         const session = await createUploadSession(fastify, {
-          modpackVersionId: modpackVersion.id,
+          modpackVersionId,
+          modpackSlug: slug,
+          version,
+          manifestHash: type === "recipes" ? manifestHash : undefined,
           userId,
           type,
           totalSize,
@@ -339,7 +369,7 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
 
       const response: UploadStatusResponse = {
         sessionId: session.id,
-        type: session.type as "icons" | "items",
+        type: session.type as UploadType,
         chunksReceived: session.chunksReceived,
         chunksMissing,
         totalChunks: session.totalChunks,
@@ -354,6 +384,9 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
    * Complete upload and process the file
    *
    * POST /modpacks/:slug/versions/:version/upload/:sessionId/complete
+   *
+   * Icons and items are processed in the request. Recipes are synced by a
+   * background job: 202 with the jobId to follow at /jobs/:id.
    */
   fastify.post<{
     Params: SessionParams;
@@ -390,6 +423,37 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
         });
       }
 
+      // The session's data only goes into the version it was started for
+      if (session.modpackSlug !== slug || session.version !== version) {
+        return reply.status(400).send({
+          error: {
+            code: "SESSION_MISMATCH",
+            message: `Upload session was started for version '${session.version}' of modpack '${session.modpackSlug}'`,
+          },
+        });
+      }
+
+      // Icon and item completions end up in the version's sync history; recipe
+      // uploads are recorded by their sync job
+      const startedAt = Date.now();
+      let stats: SyncEventStats | undefined;
+      const finish = async (statusCode: number, response: UploadCompleteResponse) => {
+        if (session.modpackVersionId) {
+          await recordSyncEvent(fastify, {
+            modpackVersionId: session.modpackVersionId,
+            userId: session.userId,
+            kind: "upload",
+            uploadType: session.type as UploadType,
+            outcome: response.success ? "succeeded" : "failed",
+            errorCode: response.success ? undefined : response.error,
+            stats,
+            durationMs: Date.now() - startedAt,
+            clientVersion: clientVersionOf(request),
+          });
+        }
+        return reply.status(statusCode).send(response);
+      };
+
       try {
         // Reassemble and verify final hash
         const { filePath, verified } = await reassembleAndVerify(fastify, sessionId);
@@ -400,7 +464,7 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
             finalHashVerified: false,
             error: "FINAL_HASH_MISMATCH",
           };
-          return reply.status(400).send(response);
+          return finish(400, response);
         }
 
         // Process based on type
@@ -413,7 +477,7 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
             itemId: icon.itemId,
             filename: icon.filename,
           }));
-          await linkIconsToItems(fastify, session.modpackVersionId, iconLinks);
+          await linkIconsToItems(fastify, session.modpackVersionId!, iconLinks);
 
           // Cleanup session files
           await cleanupSessionFiles(sessionId);
@@ -422,32 +486,70 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
             request.log.warn({ errors: result.errors }, "Some icons failed to process");
           }
 
+          stats = { processed: result.icons.length };
           const response: UploadCompleteResponse = {
             success: true,
             finalHashVerified: true,
             iconsProcessed: result.icons.length,
           };
 
-          return response;
+          return finish(200, response);
         } else if (session.type === "items") {
           // Parse and import items
           const itemsData = await parseItemsFile(filePath);
-          const result = await importItems(fastify, session.modpackVersionId, itemsData);
+          const result = await importItems(fastify, session.modpackVersionId!, itemsData);
 
           // Cleanup session files
           await cleanupSessionFiles(sessionId);
 
+          stats = {
+            processed: result.total,
+            new: result.created,
+            updated: result.updated,
+            unchanged: result.unchanged,
+          };
           const response: UploadCompleteResponse = {
             success: true,
             finalHashVerified: true,
             itemsProcessed: result.total,
           };
 
-          return response;
+          return finish(200, response);
+        } else if (session.type === "recipes") {
+          // Parse and sync recipes into the version the session was started for
+          const payload = await parseRecipesFile(filePath);
+          if (!session.manifestHash || !hashesMatch(session.manifestHash, payload.manifestHash)) {
+            await cleanupSessionFiles(sessionId);
+            return finish(400, {
+              success: false,
+              finalHashVerified: true,
+              error: "MANIFEST_MISMATCH",
+            });
+          }
+
+          // Sync in the background, like the sync endpoint; the job records its own history
+          const job = await enqueueRecipeSync(fastify, {
+            modpackSlug: session.modpackSlug,
+            version: session.version,
+            userId: request.authenticatedUser!.id,
+            payload,
+            clientVersion: clientVersionOf(request),
+          });
+
+          // Cleanup session files (kept when the queue is full, so completing can be retried)
+          await cleanupSessionFiles(sessionId);
+
+          const response: UploadCompleteResponse = {
+            success: true,
+            finalHashVerified: true,
+            jobId: job.id,
+          };
+
+          return finish(202, response);
         }
 
         // Unknown type (shouldn't happen)
-        return reply.status(400).send({
+        return finish(400, {
           success: false,
           error: "UNKNOWN_TYPE",
         });
@@ -458,7 +560,7 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
             error: "CHUNKS_MISSING",
             chunksMissing: error.missing,
           };
-          return reply.status(400).send(response);
+          return finish(400, response);
         }
         if (error instanceof FinalHashMismatchError) {
           const response: UploadCompleteResponse = {
@@ -466,11 +568,31 @@ const uploadRoutes: FastifyPluginAsync = async (fastify) => {
             error: "FINAL_HASH_MISMATCH",
             finalHashVerified: false,
           };
-          return reply.status(400).send(response);
+          return finish(400, response);
+        }
+
+        if (error instanceof InvalidRecipesFileError) {
+          await cleanupSessionFiles(sessionId);
+          const response: UploadCompleteResponse = {
+            success: false,
+            error: "INVALID_RECIPES_FILE",
+            message: error.message,
+            finalHashVerified: true,
+          };
+          return finish(400, response);
+        }
+
+        if (error instanceof SyncQueueFullError) {
+          const response: UploadCompleteResponse = {
+            success: false,
+            error: error.scope === "user" ? "SYNC_LIMIT_REACHED" : "SYNC_QUEUE_FULL",
+            finalHashVerified: true,
+          };
+          return finish(error.scope === "user" ? 429 : 503, response);
         }
 
         request.log.error(error, "Upload complete failed");
-        return reply.status(500).send({
+        return finish(500, {
           success: false,
           error: "PROCESSING_FAILED",
         });
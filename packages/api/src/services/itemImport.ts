@@ -1,12 +1,14 @@
 /**
  * Item metadata import service
  *
- * Handles importing item display names, tooltips, and icon associations
- * from the companion mod's uploaded data.
+ * Handles importing item display names, tooltips, tag membership, and icon
+ * associations from the companion mod's uploaded data.
  */
 
+import { randomUUID } from "crypto";
 import { readFile } from "fs/promises";
 import type { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
 import type { ItemMetadataPayload, ItemMetadata } from "@recipeflow/shared";
 
 // Type inferred from Prisma query
@@ -26,6 +28,17 @@ export interface LinkIconsResult {
   notFound: number;
 }
 
+// ==================== CONSTANTS ====================
+
+// Rows per INSERT ... ON CONFLICT statement (5 parameters each)
+const WRITE_BATCH_SIZE = 1000;
+
+// Tag membership rows per createMany
+const TAG_BATCH_SIZE = 5000;
+
+// Large packs write tens of thousands of rows in one transaction
+const IMPORT_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
 // ==================== SERVICE FUNCTIONS ====================
 
 /**
@@ -52,6 +65,12 @@ export async function parseItemsFile(filePath: string): Promise<ItemMetadataPayl
       // Allow missing tooltipLines, default to empty array
       item.tooltipLines = [];
     }
+    if (item.tags !== undefined) {
+      if (!Array.isArray(item.tags) || item.tags.some((tag) => typeof tag !== "string")) {
+        throw new Error(`Invalid item at index ${i}: 'tags' must be an array of strings`);
+      }
+      item.tags = item.tags.map((tag) => tag.replace(/^#/, ""));
+    }
   }
 
   return data;
@@ -60,94 +79,89 @@ export async function parseItemsFile(filePath: string): Promise<ItemMetadataPayl
 /**
  * Import item metadata into the database
  *
- * Performs upserts to handle both new and updated items.
+ * Items are upserted with multi-row INSERT ... ON CONFLICT statements and
+ * tag membership of every item that lists its tags is replaced, all in one
+ * transaction. Later duplicates of an itemId win.
  */
 export async function importItems(
   fastify: FastifyInstance,
   modpackVersionId: string,
   payload: ItemMetadataPayload,
 ): Promise<ItemImportResult> {
-  let created = 0;
-  let updated = 0;
-  let unchanged = 0;
+  const items = Array.from(new Map(payload.items.map((item) => [item.itemId, item])).values());
+
+  return fastify.prisma.$transaction(
+    async (tx) => {
+      let created = 0;
+      let updated = 0;
+
+      for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+        const rows = items
+          .slice(i, i + WRITE_BATCH_SIZE)
+          .map(
+            (item) =>
+              Prisma.sql`(${randomUUID()}, ${modpackVersionId}, ${item.itemId}, ${item.displayName}, ${item.tooltipLines}::text[])`,
+          );
+
+        // Unchanged rows are skipped by the WHERE clause and not returned;
+        // xmax is 0 for freshly inserted rows
+        const written = await tx.$queryRaw<Array<{ inserted: boolean }>>`
+          INSERT INTO items (id, modpack_version_id, item_id, display_name, tooltip)
+          VALUES ${Prisma.join(rows)}
+          ON CONFLICT (modpack_version_id, item_id) DO UPDATE SET
+            display_name = EXCLUDED.display_name,
+            tooltip = EXCLUDED.tooltip
+          WHERE items.display_name IS DISTINCT FROM EXCLUDED.display_name
+            OR items.tooltip IS DISTINCT FROM EXCLUDED.tooltip
+          RETURNING (xmax = 0) AS inserted
+        `;
+
+        const inserted = written.filter((row) => row.inserted).length;
+        created += inserted;
+        updated += written.length - inserted;
+      }
 
-  // Process in batches for performance
-  const BATCH_SIZE = 100;
+      await replaceItemTags(tx, modpackVersionId, items);
+
+      return {
+        total: items.length,
+        created,
+        updated,
+        unchanged: items.length - created - updated,
+      };
+    },
+    { timeout: IMPORT_TRANSACTION_TIMEOUT_MS },
+  );
+}
 
-  for (let i = 0; i < payload.items.length; i += BATCH_SIZE) {
-    const batch = payload.items.slice(i, i + BATCH_SIZE);
+/**
+ * Replace tag membership for items that list their tags
+ */
+async function replaceItemTags(
+  tx: Prisma.TransactionClient,
+  modpackVersionId: string,
+  items: ItemMetadata[],
+): Promise<void> {
+  const tagged = items.filter((item) => item.tags !== undefined);
 
-    // Fetch existing items for this batch
-    const itemIds = batch.map((item) => item.itemId);
-    const existingItems = await fastify.prisma.item.findMany({
+  for (let i = 0; i < tagged.length; i += WRITE_BATCH_SIZE) {
+    await tx.itemTag.deleteMany({
       where: {
         modpackVersionId,
-        itemId: { in: itemIds },
+        itemId: { in: tagged.slice(i, i + WRITE_BATCH_SIZE).map((item) => item.itemId) },
       },
     });
-
-    const existingMap = new Map(existingItems.map((item) => [item.itemId, item]));
-
-    // Process each item in the batch
-    for (const item of batch) {
-      const existing = existingMap.get(item.itemId);
-
-      if (!existing) {
-        // New item - create it
-        await fastify.prisma.item.create({
-          data: {
-            modpackVersionId,
-            itemId: item.itemId,
-            displayName: item.displayName,
-            tooltip: item.tooltipLines,
-          },
-        });
-        created++;
-      } else {
-        // Existing item - check for changes
-        const hasChanges = hasItemChanged(existing, item);
-
-        if (hasChanges) {
-          await fastify.prisma.item.update({
-            where: { id: existing.id },
-            data: {
-              displayName: item.displayName,
-              tooltip: item.tooltipLines,
-            },
-          });
-          updated++;
-        } else {
-          unchanged++;
-        }
-      }
-    }
   }
 
-  return {
-    total: payload.items.length,
-    created,
-    updated,
-    unchanged,
-  };
-}
-
-/**
- * Check if an item has changed compared to existing data
- */
-function hasItemChanged(existing: Item, incoming: ItemMetadata): boolean {
-  if (existing.displayName !== incoming.displayName) return true;
-
-  // Compare tooltip arrays
-  const existingTooltip = existing.tooltip;
-  const incomingTooltip = incoming.tooltipLines;
-
-  if (existingTooltip.length !== incomingTooltip.length) return true;
-
-  for (let i = 0; i < existingTooltip.length; i++) {
-    if (existingTooltip[i] !== incomingTooltip[i]) return true;
+  const rows = tagged.flatMap((item) =>
+    (item.tags ?? []).map((tag) => ({ modpackVersionId, tag, itemId: item.itemId })),
+  );
+  for (let i = 0; i < rows.length; i += TAG_BATCH_SIZE) {
+    await tx.itemTag.createMany({
+      data: rows.slice(i, i + TAG_BATCH_SIZE),
+      skipDuplicates: true,
+    });
   }
-
-  return false;
 }
 
 /**
@@ -0,0 +1,101 @@
+/**
+ * Item query service
+ *
+ * Ranked item search over display names (typo tolerant via pg_trgm),
+ * exact item ids and, optionally, tooltip text. Queries use the
+ * JEI-style search language from @recipeflow/shared.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
+import type { ItemWithIcon, SearchQuery } from "@recipeflow/shared";
+import { iconStorage } from "./iconStorage.js";
+import { compileItemSearch, rankingText } from "./searchQuery.js";
+import type { ModpackVersionWithModpack } from "./modpackLookup.js";
+import type { PageParams } from "../utils/pagination.js";
+
+// ==================== TYPES ====================
+
+export interface ItemSearchOptions {
+  query: SearchQuery;
+  includeTooltip: boolean;
+}
+
+export interface ItemSearchResult {
+  items: ItemWithIcon[];
+  total: number;
+}
+
+interface ItemSearchRow {
+  itemId: string;
+  displayName: string;
+  tooltip: string[];
+  iconFilename: string | null;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Score given to an exact itemId match so it always ranks first */
+const EXACT_ID_SCORE = 2;
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Search items in a modpack version
+ *
+ * Display names match by trigram word similarity, so "sodium hydrox" and
+ * "sodim hydroxide" both find "Sodium Hydroxide Dust". Tooltip lines match
+ * as case-insensitive substrings (e.g. `$NaOH`). Results are ranked by
+ * similarity to the query's plain text, with exact itemId matches first.
+ */
+export async function searchItems(
+  fastify: FastifyInstance,
+  modpackVersion: ModpackVersionWithModpack,
+  { query, includeTooltip }: ItemSearchOptions,
+  { page, limit }: PageParams,
+): Promise<ItemSearchResult> {
+  const where = Prisma.sql`
+    modpack_version_id = ${modpackVersion.id}
+    AND ${compileItemSearch(modpackVersion.id, query, { includeTooltip })}
+  `;
+
+  const text = rankingText(query);
+  const score = text
+    ? Prisma.sql`
+      CASE
+        WHEN item_id = ${text} THEN ${EXACT_ID_SCORE}::real
+        ELSE word_similarity(${text}, display_name)
+      END
+    `
+    : Prisma.sql`0`;
+
+  const [rows, countRows] = await Promise.all([
+    fastify.prisma.$queryRaw<ItemSearchRow[]>`
+      SELECT item_id AS "itemId", display_name AS "displayName", tooltip,
+        icon_filename AS "iconFilename"
+      FROM items
+      WHERE ${where}
+      ORDER BY ${score} DESC, display_name, item_id
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `,
+    fastify.prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS count FROM items WHERE ${where}
+    `,
+  ]);
+
+  return {
+    items: rows.map((row) => ({
+      itemId: row.itemId,
+      displayName: row.displayName,
+      tooltipLines: row.tooltip,
+      iconUrl: row.iconFilename
+        ? iconStorage.getIconUrl(
+            modpackVersion.modpack.slug,
+            modpackVersion.version,
+            row.iconFilename,
+          )
+        : null,
+    })),
+    total: Number(countRows[0]?.count ?? 0),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Modpack lookup service
+ *
+ * Resolves the `:slug/versions/:version` URL parameters used by the
+ * read-only query routes to a concrete modpack version.
+ */
+
+import type { FastifyInstance } from "fastify";
+
+// Types inferred from Prisma queries
+type ModpackVersion = NonNullable<
+  Awaited<ReturnType<FastifyInstance["prisma"]["modpackVersion"]["findUnique"]>>
+>;
+type Modpack = NonNullable<Awaited<ReturnType<FastifyInstance["prisma"]["modpack"]["findUnique"]>>>;
+
+// ==================== TYPES ====================
+
+export type ModpackVersionWithModpack = ModpackVersion & { modpack: Modpack };
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Find a modpack version by modpack slug and version string
+ *
+ * A version string can exist several times with different manifests
+ * (official and modified packs). Verified versions win, then the most
+ * recently synced one.
+ */
+export async function findModpackVersion(
+  fastify: FastifyInstance,
+  modpackSlug: string,
+  version: string,
+): Promise<ModpackVersionWithModpack | null> {
+  return fastify.prisma.modpackVersion.findFirst({
+    where: {
+      version,
+      modpack: { slug: modpackSlug },
+    },
+    include: { modpack: true },
+    orderBy: [{ isVerified: "desc" }, { syncedAt: { sort: "desc", nulls: "last" } }],
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Production plan service
+ *
+ * Loads the allowed recipes of a modpack version and hands them to the
+ * shared linear-programming planner.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { extractIngredients, planProduction, referencedTags } from "@recipeflow/shared";
+import type {
+  EnergyConfig,
+  ProductionPlan,
+  ProductionPlanRequest,
+  RecipeData,
+} from "@recipeflow/shared";
+import type { ModpackVersionWithModpack } from "./modpackLookup.js";
+import { loadTagMembers } from "./tagLookup.js";
+
+// ==================== ERROR CLASSES ====================
+
+export class UnknownRecipesError extends Error {
+  public readonly recipeIds: string[];
+
+  constructor(recipeIds: string[]) {
+    super(`Unknown recipes: ${recipeIds.join(", ")}`);
+    this.name = "UnknownRecipesError";
+    this.recipeIds = recipeIds;
+  }
+}
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Plan production for a modpack version from the requested recipes
+ *
+ * Energy ratios stored on the version apply unless the request overrides them.
+ * Tag inputs may be filled by any imported member of the tag.
+ *
+ * @throws UnknownRecipesError if any recipeId is not part of the version
+ */
+export async function planVersionProduction(
+  fastify: FastifyInstance,
+  modpackVersion: ModpackVersionWithModpack,
+  request: ProductionPlanRequest,
+): Promise<ProductionPlan> {
+  const recipeIds = Array.from(new Set(request.recipeIds));
+
+  const recipes = await fastify.prisma.recipe.findMany({
+    where: { modpackVersionId: modpackVersion.id, recipeId: { in: recipeIds }, removedAt: null },
+    select: { recipeId: true, data: true },
+  });
+
+  const found = new Set(recipes.map((recipe) => recipe.recipeId));
+  const missing = recipeIds.filter((id) => !found.has(id));
+  if (missing.length > 0) {
+    throw new UnknownRecipesError(missing);
+  }
+
+  const plannerRecipes = recipes.map((recipe) => ({
+    recipeId: recipe.recipeId,
+    data: recipe.data as unknown as RecipeData,
+  }));
+
+  const tags = referencedTags(plannerRecipes.flatMap((recipe) => extractIngredients(recipe.data)));
+  const tagMembers = await loadTagMembers(fastify, modpackVersion.id, tags);
+
+  return planProduction(plannerRecipes, {
+    targets: request.targets,
+    objective: request.objective,
+    rawItems: request.rawItems,
+    rawCosts: request.rawCosts,
+    energyConfig: {
+      ...(modpackVersion.energyConfig as Partial<EnergyConfig> | null),
+      ...request.energyConfig,
+    },
+    tagMembers: Object.fromEntries(tagMembers),
+  });
+}
@@ -0,0 +1,315 @@
+/**
+ * Production tree service
+ *
+ * Walks recipes backwards from a target item to raw materials and lays
+ * the result out as flowchart nodes and edges:
+ * - Recipe selection (user preference, then a deterministic heuristic)
+ * - Tag and multi-option inputs resolved to one concrete item
+ * - Rate balancing across the chain, including recipe loops
+ * - Left-to-right layout (raw materials left, target right)
+ */
+
+import type { FastifyInstance } from "fastify";
+import {
+  extractIngredients,
+  referencedTags,
+  resolveChain,
+  resolveIngredient,
+} from "@recipeflow/shared";
+import type {
+  FlowEdge,
+  FlowRecipeNode,
+  GraphRecipe,
+  IngredientEntry,
+  ItemRate,
+  ProductionTreeResponse,
+  RawMaterialRate,
+  RecipeData,
+} from "@recipeflow/shared";
+import { loadTagMembers } from "./tagLookup.js";
+
+// ==================== TYPES ====================
+
+export interface ProductionTreeOptions {
+  targetItem: string;
+  rate: number; // Per second
+  maxDepth: number;
+  rawItems: string[];
+  recipePreferences: Record<string, string>;
+}
+
+interface RecipeChoices {
+  chosen: Map<string, GraphRecipe>; // itemId -> recipe used to make it
+  unexpanded: Map<string, RawMaterialRate["reason"]>; // itemId -> why it has no recipe
+}
+
+interface TreeNode {
+  node: FlowRecipeNode;
+  craftsPerSecond: number;
+  depth: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const COLUMN_SPACING = 320;
+const ROW_SPACING = 160;
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Generate a production tree for a target item
+ */
+export async function generateProductionTree(
+  fastify: FastifyInstance,
+  modpackVersionId: string,
+  options: ProductionTreeOptions,
+): Promise<ProductionTreeResponse> {
+  const { chosen, unexpanded } = await loadRecipeChoices(fastify, modpackVersionId, options);
+  const resolution = resolveChain(chosen, { [options.targetItem]: options.rate });
+
+  const depths = computeDepths(chosen, options.targetItem);
+  const nodes = new Map<string, TreeNode>();
+  for (const recipe of new Set(chosen.values())) {
+    const craftsPerSecond = resolution.crafts[recipe.id] ?? 0;
+    if (craftsPerSecond <= 0) continue;
+
+    nodes.set(recipe.id, {
+      node: {
+        id: `node-${nodes.size + 1}`,
+        type: "recipe",
+        position: { x: 0, y: 0 },
+        data: { recipeId: recipe.id },
+      },
+      craftsPerSecond,
+      depth: depths.get(recipe.id) ?? 0,
+    });
+  }
+
+  const edges = new Map<string, FlowEdge>();
+  for (const recipe of new Set(chosen.values())) {
+    const consumer = nodes.get(recipe.id);
+    if (!consumer) continue;
+
+    for (const input of recipe.inputs) {
+      const producer = nodes.get(chosen.get(input.id)?.id ?? "");
+      if (!producer) continue;
+
+      const edgeId = `edge-${producer.node.id}-${consumer.node.id}-${input.id}`;
+      edges.set(edgeId, {
+        id: edgeId,
+        source: producer.node.id,
+        target: consumer.node.id,
+        sourceHandle: input.id,
+        targetHandle: input.id,
+      });
+    }
+  }
+
+  // Items with a chosen recipe only stay raw when a loop could not balance
+  const rawMaterials: RawMaterialRate[] = Object.entries(resolution.rawInputs).map(
+    ([itemId, rate]) => ({
+      itemId,
+      rate,
+      reason: unexpanded.get(itemId) ?? (chosen.has(itemId) ? "cycle" : "no_recipe"),
+    }),
+  );
+  const byproducts: ItemRate[] = Object.entries(resolution.surplus).map(([itemId, rate]) => ({
+    itemId,
+    rate,
+  }));
+
+  return {
+    flowchart: {
+      nodes: layoutNodes(Array.from(nodes.values())),
+      edges: Array.from(edges.values()),
+      viewport: { x: 0, y: 0, zoom: 1 },
+    },
+    rawMaterials,
+    byproducts,
+    loops: resolution.loops,
+    converged: resolution.converged,
+  };
+}
+
+/**
+ * Load and choose one recipe per reachable item, level by level
+ *
+ * Only the chosen recipe's inputs are followed, so the number of queries
+ * is bounded by maxDepth. Items revisited through a loop reuse their
+ * existing choice. Tag and multi-option inputs prefer raw items, then
+ * items already in the tree, then the first accepted item.
+ */
+async function loadRecipeChoices(
+  fastify: FastifyInstance,
+  modpackVersionId: string,
+  options: ProductionTreeOptions,
+): Promise<RecipeChoices> {
+  const rawItems = new Set(options.rawItems);
+  const visited = new Set<string>();
+  const chosen = new Map<string, GraphRecipe>();
+  const unexpanded = new Map<string, RawMaterialRate["reason"]>();
+  const tagMembers = new Map<string, string[]>();
+  const preferInput = (id: string) => rawItems.has(id) || chosen.has(id);
+  let frontier = [options.targetItem];
+
+  for (let depth = 0; frontier.length > 0; depth++) {
+    const pending = frontier.filter((id) => !visited.has(id));
+    pending.forEach((id) => visited.add(id));
+
+    const toLoad: string[] = [];
+    for (const itemId of pending) {
+      if (rawItems.has(itemId)) unexpanded.set(itemId, "raw");
+      else if (depth >= options.maxDepth) unexpanded.set(itemId, "max_depth");
+      else toLoad.push(itemId);
+    }
+    if (toLoad.length === 0) break;
+
+    const recipes = await fastify.prisma.recipe.findMany({
+      where: {
+        modpackVersionId,
+        removedAt: null,
+        ingredients: {
+          some: { role: "OUTPUT", ingredientId: { in: toLoad } },
+        },
+      },
+      select: { recipeId: true, data: true },
+    });
+
+    const extracted = recipes.map((recipe) => ({
+      recipeId: recipe.recipeId,
+      entries: extractIngredients(recipe.data as unknown as RecipeData),
+    }));
+
+    const newTags = referencedTags(extracted.flatMap(({ entries }) => entries)).filter(
+      (tag) => !tagMembers.has(tag),
+    );
+    const loaded = await loadTagMembers(fastify, modpackVersionId, newTags);
+    newTags.forEach((tag) => tagMembers.set(tag, loaded.get(tag) ?? []));
+
+    const candidatesByItem = new Map<string, GraphRecipe[]>();
+    for (const { recipeId, entries } of extracted) {
+      const candidate: GraphRecipe = {
+        id: recipeId,
+        // Molds, lenses and circuits are needed once, not per craft
+        inputs: entries
+          .filter((entry) => entry.role === "input" && entry.consumed !== false)
+          .map((entry) => resolveIngredient(entry, tagMembers, preferInput)),
+        outputs: entries.filter((entry) => entry.role === "output"),
+      };
+
+      for (const output of candidate.outputs) {
+        if (!toLoad.includes(output.id) || expectedAmount(output) <= 0) continue;
+        const list = candidatesByItem.get(output.id) ?? [];
+        list.push(candidate);
+        candidatesByItem.set(output.id, list);
+      }
+    }
+
+    const next: string[] = [];
+    for (const itemId of toLoad) {
+      const recipe = chooseRecipe(
+        itemId,
+        candidatesByItem.get(itemId) ?? [],
+        options.recipePreferences[itemId],
+      );
+      if (!recipe) {
+        unexpanded.set(itemId, "no_recipe");
+        continue;
+      }
+
+      chosen.set(itemId, recipe);
+      next.push(...recipe.inputs.map((input) => input.id));
+    }
+
+    frontier = next;
+  }
+
+  return { chosen, unexpanded };
+}
+
+/**
+ * Pick the recipe used to make an item
+ *
+ * A preferred recipeId always wins. Otherwise recipes that consume the
+ * item itself are avoided, then fewer distinct inputs win, with recipeId
+ * as a stable tie-breaker.
+ */
+function chooseRecipe(
+  itemId: string,
+  candidates: GraphRecipe[],
+  preferredRecipeId: string | undefined,
+): GraphRecipe | undefined {
+  if (preferredRecipeId) {
+    const preferred = candidates.find((recipe) => recipe.id === preferredRecipeId);
+    if (preferred) return preferred;
+  }
+
+  const consumesItself = (recipe: GraphRecipe) =>
+    recipe.inputs.some((input) => input.id === itemId) ? 1 : 0;
+
+  return [...candidates].sort(
+    (a, b) =>
+      consumesItself(a) - consumesItself(b) ||
+      a.inputs.length - b.inputs.length ||
+      a.id.localeCompare(b.id),
+  )[0];
+}
+
+/**
+ * Expected amount produced per craft, accounting for output chance
+ */
+function expectedAmount(entry: IngredientEntry): number {
+  return entry.amount * (entry.chance ?? 1);
+}
+
+/**
+ * Shortest number of recipe steps from the target to every recipe
+ *
+ * Breadth-first so that loops don't push recipes arbitrarily far left.
+ */
+function computeDepths(chosen: Map<string, GraphRecipe>, targetItem: string): Map<string, number> {
+  const depths = new Map<string, number>();
+  const root = chosen.get(targetItem);
+  if (!root) return depths;
+
+  depths.set(root.id, 0);
+  const queue = [root];
+  for (let i = 0; i < queue.length; i++) {
+    const recipe = queue[i]!;
+    const depth = depths.get(recipe.id)!;
+
+    for (const input of recipe.inputs) {
+      const producer = chosen.get(input.id);
+      if (!producer || depths.has(producer.id)) continue;
+      depths.set(producer.id, depth + 1);
+      queue.push(producer);
+    }
+  }
+
+  return depths;
+}
+
+/**
+ * Position nodes in columns by depth (target on the right)
+ */
+function layoutNodes(treeNodes: TreeNode[]): FlowRecipeNode[] {
+  const maxDepth = Math.max(0, ...treeNodes.map((treeNode) => treeNode.depth));
+  const rowsPerColumn = new Map<number, number>();
+
+  return treeNodes.map((treeNode) => {
+    const row = rowsPerColumn.get(treeNode.depth) ?? 0;
+    rowsPerColumn.set(treeNode.depth, row + 1);
+
+    return {
+      ...treeNode.node,
+      position: {
+        x: (maxDepth - treeNode.depth) * COLUMN_SPACING,
+        y: row * ROW_SPACING,
+      },
+      data: {
+        ...treeNode.node.data,
+        craftsPerSecond: treeNode.craftsPerSecond,
+      },
+    };
+  });
+}
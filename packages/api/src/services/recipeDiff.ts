@@ -0,0 +1,229 @@
+/**
+ * Recipe diff service
+ *
+ * Compares the live recipes of two modpack versions by recipeId. Matching
+ * per-recipe content hashes skip the JSONB comparison; field-level diffs
+ * are only computed for the changed recipes on the requested page.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
+import { diffRecipe } from "@recipeflow/shared";
+import type {
+  RecipeChangeKind,
+  RecipeDiffCounts,
+  RecipeDiffEntry,
+  RecipeDiffGroup,
+  RecipeDiffGroupBy,
+  RecipeFieldChange,
+} from "@recipeflow/shared";
+import type { PageParams } from "../utils/pagination.js";
+
+// ==================== TYPES ====================
+
+export interface RecipeDiffFilters {
+  change?: RecipeChangeKind;
+  sourceMod?: string;
+  type?: string;
+}
+
+export interface RecipeDiffResult {
+  summary: RecipeDiffCounts & { unchanged: number };
+  groups?: RecipeDiffGroup[];
+  recipes: RecipeDiffEntry[];
+  total: number; // Entries matching the filters
+}
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Diff the recipes of two modpack versions
+ *
+ * The summary covers the whole diff; groups and the recipe page only the
+ * entries matching the filters. Recipes are ordered by recipeId.
+ */
+export async function diffRecipeVersions(
+  fastify: FastifyInstance,
+  fromVersionId: string,
+  toVersionId: string,
+  filters: RecipeDiffFilters,
+  groupBy: RecipeDiffGroupBy | undefined,
+  { page, limit }: PageParams,
+): Promise<RecipeDiffResult> {
+  const where = buildWhereClause(filters);
+  const offset = (page - 1) * limit;
+  const groupKey = groupBy === "type" ? Prisma.sql`type` : Prisma.sql`source_mod`;
+
+  // The change set is materialized once; summary, groups and page all read it
+  const [row] = await fastify.prisma.$queryRaw<
+    Array<{
+      added: bigint;
+      removed: bigint;
+      changed: bigint;
+      total: bigint;
+      live: bigint;
+      groups: RecipeDiffGroup[] | null;
+      recipes: RecipeDiffEntry[];
+    }>
+  >`
+    WITH changes AS MATERIALIZED (${changedRecipes(fromVersionId, toVersionId)})
+    SELECT
+      COUNT(*) FILTER (WHERE change = 'added') AS added,
+      COUNT(*) FILTER (WHERE change = 'removed') AS removed,
+      COUNT(*) FILTER (WHERE change = 'changed') AS changed,
+      COUNT(*) FILTER (WHERE ${where}) AS total,
+      (
+        SELECT COUNT(*) FROM recipes
+        WHERE modpack_version_id = ${toVersionId} AND removed_at IS NULL
+      ) AS live,
+      ${
+        groupBy
+          ? Prisma.sql`(
+              SELECT COALESCE(
+                json_agg(g ORDER BY g.added + g.removed + g.changed DESC, g.key),
+                '[]'
+              )
+              FROM (
+                SELECT ${groupKey} AS key,
+                  COUNT(*) FILTER (WHERE change = 'added') AS added,
+                  COUNT(*) FILTER (WHERE change = 'removed') AS removed,
+                  COUNT(*) FILTER (WHERE change = 'changed') AS changed
+                FROM changes
+                WHERE ${where}
+                GROUP BY key
+              ) g
+            )`
+          : Prisma.sql`NULL::json`
+      } AS groups,
+      (
+        SELECT COALESCE(json_agg(p ORDER BY p."recipeId"), '[]')
+        FROM (
+          SELECT recipe_id AS "recipeId", change, type, source_mod AS "sourceMod"
+          FROM changes
+          WHERE ${where}
+          ORDER BY recipe_id
+          LIMIT ${limit} OFFSET ${offset}
+        ) p
+      ) AS recipes
+    FROM changes
+  `;
+
+  const counts: RecipeDiffCounts = {
+    added: Number(row?.added ?? 0),
+    removed: Number(row?.removed ?? 0),
+    changed: Number(row?.changed ?? 0),
+  };
+  const recipes = row?.recipes ?? [];
+
+  const fields = await diffChangedRecipes(
+    fastify,
+    fromVersionId,
+    toVersionId,
+    recipes.filter((entry) => entry.change === "changed").map((entry) => entry.recipeId),
+  );
+
+  return {
+    summary: { ...counts, unchanged: Number(row?.live ?? 0) - counts.added - counts.changed },
+    groups: row?.groups ?? undefined,
+    recipes: recipes.map((entry) =>
+      entry.change === "changed" ? { ...entry, fields: fields.get(entry.recipeId) ?? [] } : entry,
+    ),
+    total: Number(row?.total ?? 0),
+  };
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Recipes added, removed or changed between two versions
+ *
+ * Type and sourceMod come from the newer version unless the recipe was
+ * removed. Rows from before per-recipe hashes compare their stored data.
+ */
+function changedRecipes(fromVersionId: string, toVersionId: string): Prisma.Sql {
+  return Prisma.sql`
+    SELECT COALESCE(b.recipe_id, a.recipe_id) AS recipe_id,
+      CASE
+        WHEN a.recipe_id IS NULL THEN 'added'
+        WHEN b.recipe_id IS NULL THEN 'removed'
+        ELSE 'changed'
+      END AS change,
+      COALESCE(b.type, a.type) AS type,
+      COALESCE(b.source_mod, a.source_mod) AS source_mod
+    FROM (
+      SELECT recipe_id, type, source_mod, content_hash, data FROM recipes
+      WHERE modpack_version_id = ${fromVersionId} AND removed_at IS NULL
+    ) a
+    FULL OUTER JOIN (
+      SELECT recipe_id, type, source_mod, content_hash, data FROM recipes
+      WHERE modpack_version_id = ${toVersionId} AND removed_at IS NULL
+    ) b ON a.recipe_id = b.recipe_id
+    WHERE a.recipe_id IS NULL
+      OR b.recipe_id IS NULL
+      OR CASE
+        WHEN a.content_hash IS NOT NULL AND b.content_hash IS NOT NULL
+          THEN a.content_hash <> b.content_hash
+        ELSE a.type <> b.type OR a.source_mod <> b.source_mod OR a.data <> b.data
+      END
+  `;
+}
+
+/**
+ * Build the SQL WHERE clause for a set of filters
+ */
+function buildWhereClause(filters: RecipeDiffFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+  if (filters.change) {
+    conditions.push(Prisma.sql`change = ${filters.change}`);
+  }
+  if (filters.sourceMod) {
+    conditions.push(Prisma.sql`source_mod = ${filters.sourceMod}`);
+  }
+  if (filters.type) {
+    conditions.push(Prisma.sql`type = ${filters.type}`);
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+/**
+ * Field-level diffs of changed recipes, by recipeId
+ */
+async function diffChangedRecipes(
+  fastify: FastifyInstance,
+  fromVersionId: string,
+  toVersionId: string,
+  recipeIds: string[],
+): Promise<Map<string, RecipeFieldChange[]>> {
+  const fields = new Map<string, RecipeFieldChange[]>();
+  if (recipeIds.length === 0) return fields;
+
+  const rows = await fastify.prisma.recipe.findMany({
+    where: {
+      modpackVersionId: { in: [fromVersionId, toVersionId] },
+      recipeId: { in: recipeIds },
+      removedAt: null,
+    },
+    select: { modpackVersionId: true, recipeId: true, type: true, sourceMod: true, data: true },
+  });
+
+  const before = new Map(
+    rows.filter((row) => row.modpackVersionId === fromVersionId).map((row) => [row.recipeId, row]),
+  );
+  for (const after of rows) {
+    if (after.modpackVersionId !== toVersionId) continue;
+    const previous = before.get(after.recipeId);
+    if (previous) {
+      fields.set(
+        after.recipeId,
+        diffRecipe(
+          { ...previous, data: previous.data as Record<string, unknown> },
+          { ...after, data: after.data as Record<string, unknown> },
+        ),
+      );
+    }
+  }
+
+  return fields;
+}
@@ -3,19 +3,46 @@
  *
  * Handles recipe synchronization from the companion mod including:
  * - Modpack and version creation/update
- * - Recipe upsert with change detection
+ * - Recipe data validation (strict or lenient)
+ * - Content hash verification against the recipes sent
+ * - Delta sync planning from per-recipe hashes
+ * - Bulk recipe upsert with change detection, in one transaction
+ * - Removal (tombstone or delete) of recipes missing from an export
+ * - Ingredient index maintenance
  * - Import statistics tracking
  */
 
+import { randomUUID } from "crypto";
+import { readFile } from "fs/promises";
 import type { FastifyInstance } from "fastify";
-import type { RecipeSyncRequest, RecipeSyncInput } from "@recipeflow/shared";
-import { hashesMatch } from "../utils/hash.js";
-
-// Types inferred from Prisma queries
+import { Prisma } from "@prisma/client";
+import {
+  canonicalRecipeJson,
+  canonicalRecipeSetJson,
+  extractIngredients,
+  isEnergyConfigOverrides,
+  isTagId,
+  validateRecipeData,
+} from "@recipeflow/shared";
+import type {
+  RecipeHashEntry,
+  RecipeSyncPlanRequest,
+  RecipeSyncPlanResponse,
+  RecipeSyncRequest,
+  RecipeSyncResponse,
+  RecipeSyncInput,
+  RecipeData,
+  RecipeValidationIssue,
+  RecipeValidationReport,
+  SyncJobProgress,
+} from "@recipeflow/shared";
+import { hashesMatch, hashString, isValidHash } from "../utils/hash.js";
+import type { ApiError } from "../plugins/error-handler.js";
+
+// Type inferred from Prisma query
 type ModpackVersion = NonNullable<
   Awaited<ReturnType<FastifyInstance["prisma"]["modpackVersion"]["findUnique"]>>
 >;
-type Recipe = NonNullable<Awaited<ReturnType<FastifyInstance["prisma"]["recipe"]["findUnique"]>>>;
 
 // ==================== TYPES ====================
 
@@ -24,7 +51,12 @@ export interface RecipeSyncResult {
   new: number;
   updated: number;
   unchanged: number;
+  invalid: number;
+  removed: number;
+  errors: RecipeValidationReport[];
   contentHash: string;
+  previousHash: string | null; // Version's recipeHash before this sync
+  skipped: boolean; // Content hash unchanged, nothing written
   version: string;
   modpackVersionId: string;
   isVerified: boolean;
@@ -36,6 +68,72 @@ export interface UpsertStats {
   unchanged: number;
 }
 
+/** Receives progress of a running sync (see SyncJobPhase) */
+export type SyncProgressCallback = (progress: SyncJobProgress) => void;
+
+/** Stored state of a recipe, as needed to plan a sync */
+interface StoredRecipe {
+  id: string;
+  recipeId: string;
+  contentHash: string | null;
+  removed: boolean;
+  validationIssues: unknown;
+  indexed: boolean;
+  legacy: Pick<RecipeSyncInput, "type" | "sourceMod" | "data"> | null; // Only without contentHash
+}
+
+/** Recipe row a sync writes */
+interface RecipeWrite {
+  recipe: RecipeSyncInput;
+  contentHash: string;
+  validationIssues: RecipeValidationIssue[] | null;
+  id?: string; // Stored id, for recipes that already exist
+  upsert: boolean; // Recipe row needs writing
+  reindex: boolean; // Ingredient index needs rebuilding
+}
+
+// ==================== CONSTANTS ====================
+
+// Rows per INSERT ... ON CONFLICT statement (8 parameters each)
+const WRITE_BATCH_SIZE = 1000;
+
+// Ingredient index rows per createMany
+const INGREDIENT_BATCH_SIZE = 5000;
+
+// Large syncs write hundreds of thousands of rows in one transaction
+const SYNC_TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+// ==================== ERROR CLASSES ====================
+
+export class RecipeValidationError extends Error {
+  public readonly errors: RecipeValidationReport[];
+
+  constructor(errors: RecipeValidationReport[]) {
+    super(`${errors.length} recipe(s) failed validation`);
+    this.name = "RecipeValidationError";
+    this.errors = errors;
+  }
+}
+
+export class ContentHashMismatchError extends Error {
+  public readonly expected: string;
+  public readonly received: string;
+
+  constructor(expected: string, received: string) {
+    super(`Content hash mismatch: expected ${expected}, received ${received}`);
+    this.name = "ContentHashMismatchError";
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export class InvalidRecipesFileError extends Error {
+  constructor(message: string) {
+    super(`Invalid recipes file: ${message}`);
+    this.name = "InvalidRecipesFileError";
+  }
+}
+
 // ==================== SERVICE FUNCTIONS ====================
 
 /**
@@ -43,6 +141,21 @@ export interface UpsertStats {
  *
  * This is the main entry point for recipe synchronization.
  * It handles modpack/version creation and recipe upserts.
+ *
+ * A delta sync only carries the recipes planRecipeSync reported as
+ * missing or stale; contentHash and recipeCount still describe the full
+ * set, and the recipes left out are counted as unchanged.
+ *
+ * Stored recipes missing from a full sync are tombstoned or deleted
+ * depending on the removal mode. A delta sync can't tell a recipe left
+ * out from a removed one, so it only removes its removedRecipeIds.
+ *
+ * The content hash is recomputed from the recipes (and, for a delta sync,
+ * the stored per-recipe hashes), so the skip-if-unchanged check never
+ * trusts a client's hash.
+ *
+ * @throws RecipeValidationError in strict mode if any recipe is invalid
+ * @throws ContentHashMismatchError if contentHash doesn't match the recipes
  */
 export async function syncRecipes(
   fastify: FastifyInstance,
@@ -50,32 +163,61 @@ export async function syncRecipes(
   version: string,
   userId: string,
   payload: RecipeSyncRequest,
+  onProgress: SyncProgressCallback = () => {},
 ): Promise<RecipeSyncResult> {
-  const { contentHash, manifestHash, recipeCount, recipes } = payload;
+  const { contentHash, manifestHash, recipeCount, recipes, energyConfig } = payload;
+
+  // Validate before writing anything so strict mode rejects the sync as a whole
+  onProgress({ phase: "validating", processed: 0, total: recipes.length });
+  const errors = validateRecipes(recipes);
+  if (errors.length > 0 && payload.validation === "strict") {
+    throw new RecipeValidationError(errors);
+  }
 
-  // 1. Find or create modpack
-  let modpack = await fastify.prisma.modpack.findUnique({
-    where: { slug: modpackSlug },
+  // 1. Check the content hash before writing anything; a delta sync builds
+  // on the recipes stored for an existing version
+  const existingVersion = await fastify.prisma.modpackVersion.findFirst({
+    where: { version, manifestHash, modpack: { slug: modpackSlug } },
   });
 
-  if (!modpack) {
-    modpack = await fastify.prisma.modpack.create({
-      data: {
-        slug: modpackSlug,
-        name: formatModpackName(modpackSlug),
-      },
+  const expectedHash = await recipeSetHash(fastify, existingVersion?.id ?? null, payload);
+  if (!hashesMatch(expectedHash, contentHash)) {
+    throw new ContentHashMismatchError(expectedHash, contentHash);
+  }
+
+  // 2. Find or create modpack and version
+  let modpackVersion = existingVersion;
+  if (!modpackVersion) {
+    let modpack = await fastify.prisma.modpack.findUnique({
+      where: { slug: modpackSlug },
     });
-    fastify.log.info({ slug: modpackSlug }, "Created new modpack");
+
+    if (!modpack) {
+      modpack = await fastify.prisma.modpack.create({
+        data: {
+          slug: modpackSlug,
+          name: formatModpackName(modpackSlug),
+        },
+      });
+      fastify.log.info({ slug: modpackSlug }, "Created new modpack");
+    }
+
+    ({ modpackVersion } = await findOrCreateModpackVersion(
+      fastify,
+      modpack.id,
+      version,
+      manifestHash,
+      userId,
+    ));
   }
 
-  // 2. Find or create modpack version
-  const { modpackVersion } = await findOrCreateModpackVersion(
-    fastify,
-    modpack.id,
-    version,
-    manifestHash,
-    userId,
-  );
+  // Energy ratios come from the pack's config, which can change without recipes changing
+  if (energyConfig) {
+    await fastify.prisma.modpackVersion.update({
+      where: { id: modpackVersion.id },
+      data: { energyConfig },
+    });
+  }
 
   // 3. Check if content has changed (skip if no recipes to sync)
   if (modpackVersion.recipeHash && hashesMatch(modpackVersion.recipeHash, contentHash)) {
@@ -89,30 +231,58 @@ export async function syncRecipes(
       new: 0,
       updated: 0,
       unchanged: recipeCount,
+      invalid: errors.length,
+      removed: 0,
+      errors,
       contentHash,
+      previousHash: modpackVersion.recipeHash,
+      skipped: true,
       version,
       modpackVersionId: modpackVersion.id,
       isVerified: modpackVersion.isVerified,
     };
   }
 
-  // 4. Upsert recipes
-  const stats = await upsertRecipes(fastify, modpackVersion.id, recipes);
+  // 4. Compare with stored recipes to find the rows to write
+  const issuesByRecipe = new Map(errors.map((report) => [report.recipeId, report.issues]));
+  onProgress({ phase: "planning", processed: 0, total: recipes.length });
+  const { writes, stats } = await planRecipeWrites(
+    fastify,
+    modpackVersion.id,
+    recipes,
+    issuesByRecipe,
+  );
+  if (payload.delta) {
+    stats.unchanged += Math.max(0, recipeCount - recipes.length);
+  }
 
-  // 5. Update version with new hash and sync info
-  const updatedVersion = await fastify.prisma.modpackVersion.update({
-    where: { id: modpackVersion.id },
-    data: {
-      recipeHash: contentHash,
-      syncedById: userId,
-      syncedAt: new Date(),
+  // 5. Write recipes, remove missing ones and flip the version hash in one
+  // transaction, so a failed sync leaves the previous state untouched
+  const { removed, updatedVersion } = await fastify.prisma.$transaction(
+    async (tx) => {
+      await writeRecipes(tx, modpackVersion.id, writes, onProgress);
+      const removed = await removeMissingRecipes(tx, modpackVersion.id, payload, onProgress);
+
+      const updatedVersion = await tx.modpackVersion.update({
+        where: { id: modpackVersion.id },
+        data: {
+          recipeHash: contentHash,
+          syncedById: userId,
+          syncedAt: new Date(),
+        },
+      });
+
+      return { removed, updatedVersion };
     },
-  });
+    { timeout: SYNC_TRANSACTION_TIMEOUT_MS },
+  );
 
   fastify.log.info(
     {
       versionId: modpackVersion.id,
       stats,
+      invalid: errors.length,
+      removed,
       contentHash,
     },
     "Recipe sync completed",
@@ -121,13 +291,227 @@ export async function syncRecipes(
   return {
     received: recipeCount,
     ...stats,
+    invalid: errors.length,
+    removed,
+    errors,
     contentHash,
+    previousHash: modpackVersion.recipeHash,
+    skipped: false,
     version,
     modpackVersionId: modpackVersion.id,
     isVerified: updatedVersion.isVerified,
   };
 }
 
+/**
+ * Work out which recipes a delta sync has to send
+ *
+ * Recipes stored before per-recipe hashes existed count as stale, so
+ * they are sent once and hashed from then on.
+ *
+ * @throws ContentHashMismatchError if contentHash doesn't match the hashes sent
+ */
+export async function planRecipeSync(
+  fastify: FastifyInstance,
+  modpackSlug: string,
+  version: string,
+  request: RecipeSyncPlanRequest,
+): Promise<RecipeSyncPlanResponse> {
+  const expectedHash = hashRecipeSet(request.recipes);
+  if (!hashesMatch(expectedHash, request.contentHash)) {
+    throw new ContentHashMismatchError(expectedHash, request.contentHash);
+  }
+
+  const modpackVersion = await fastify.prisma.modpackVersion.findFirst({
+    where: {
+      version,
+      manifestHash: request.manifestHash,
+      modpack: { slug: modpackSlug },
+    },
+  });
+
+  if (!modpackVersion) {
+    return {
+      upToDate: false,
+      missing: request.recipes.map((entry) => entry.recipeId),
+      stale: [],
+      removed: [],
+      unchanged: 0,
+    };
+  }
+
+  if (modpackVersion.recipeHash && hashesMatch(modpackVersion.recipeHash, request.contentHash)) {
+    return { upToDate: true, missing: [], stale: [], removed: [], unchanged: request.recipeCount };
+  }
+
+  const stored = await fastify.prisma.recipe.findMany({
+    where: { modpackVersionId: modpackVersion.id },
+    select: { recipeId: true, contentHash: true, removedAt: true },
+  });
+  // Tombstoned recipes count as missing so they are sent again and revived
+  const storedHashes = new Map(
+    stored
+      .filter((recipe) => recipe.removedAt === null)
+      .map((recipe) => [recipe.recipeId, recipe.contentHash]),
+  );
+
+  const missing: string[] = [];
+  const stale: string[] = [];
+  let unchanged = 0;
+
+  for (const entry of request.recipes) {
+    const storedHash = storedHashes.get(entry.recipeId);
+    if (storedHash === undefined) missing.push(entry.recipeId);
+    else if (!storedHash || !hashesMatch(storedHash, entry.hash)) stale.push(entry.recipeId);
+    else unchanged++;
+  }
+
+  const exported = new Set(request.recipes.map((entry) => entry.recipeId));
+  const removed = Array.from(storedHashes.keys()).filter((recipeId) => !exported.has(recipeId));
+
+  return { upToDate: false, missing, stale, removed, unchanged };
+}
+
+/**
+ * Structural checks on a recipe sync payload
+ *
+ * Shared by the sync endpoint and recipe uploads; recipe data itself is
+ * validated by syncRecipes.
+ * @returns An API error body to send with a 400, or null if the payload is well-formed
+ */
+export function checkRecipeSyncRequest(body: unknown): ApiError | null {
+  const invalid = (code: string, message: string): ApiError => ({ error: { code, message } });
+
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return invalid("INVALID_BODY", "Expected a recipe sync object");
+  }
+  const data = body as RecipeSyncRequest;
+
+  if (!data.contentHash || !isValidHash(data.contentHash)) {
+    return invalid("INVALID_CONTENT_HASH", "Missing or invalid contentHash (expected sha256:...)");
+  }
+  if (!data.manifestHash || !isValidHash(data.manifestHash)) {
+    return invalid(
+      "INVALID_MANIFEST_HASH",
+      "Missing or invalid manifestHash (expected sha256:...)",
+    );
+  }
+  if (!Array.isArray(data.recipes)) {
+    return invalid("INVALID_RECIPES", "Missing or invalid recipes array");
+  }
+  if (typeof data.recipeCount !== "number" || data.recipeCount < 0) {
+    return invalid("INVALID_RECIPE_COUNT", "Missing or invalid recipeCount");
+  }
+  if (data.energyConfig !== undefined && !isEnergyConfigOverrides(data.energyConfig)) {
+    return invalid(
+      "INVALID_ENERGY_CONFIG",
+      "energyConfig must map known ratio names to positive numbers",
+    );
+  }
+  if (data.validation !== undefined && !["strict", "lenient"].includes(data.validation)) {
+    return invalid("INVALID_VALIDATION_MODE", "validation must be 'strict' or 'lenient'");
+  }
+  if (data.delta !== undefined && typeof data.delta !== "boolean") {
+    return invalid("INVALID_DELTA", "delta must be a boolean");
+  }
+  if (data.removal !== undefined && !["tombstone", "delete"].includes(data.removal)) {
+    return invalid("INVALID_REMOVAL_MODE", "removal must be 'tombstone' or 'delete'");
+  }
+  if (
+    data.removedRecipeIds !== undefined &&
+    (!Array.isArray(data.removedRecipeIds) ||
+      data.removedRecipeIds.some((recipeId) => typeof recipeId !== "string"))
+  ) {
+    return invalid("INVALID_REMOVED_RECIPES", "removedRecipeIds must be an array of recipe ids");
+  }
+
+  // Each recipe needs its identifying fields
+  for (const [i, recipe] of data.recipes.entries()) {
+    if (!recipe || !recipe.recipeId || typeof recipe.recipeId !== "string") {
+      return invalid("INVALID_RECIPE", `Recipe at index ${i} missing or invalid recipeId`);
+    }
+    if (!recipe.type || typeof recipe.type !== "string") {
+      return invalid("INVALID_RECIPE", `Recipe at index ${i} missing or invalid type`);
+    }
+    if (!recipe.sourceMod || typeof recipe.sourceMod !== "string") {
+      return invalid("INVALID_RECIPE", `Recipe at index ${i} missing or invalid sourceMod`);
+    }
+    if (!recipe.data || typeof recipe.data !== "object") {
+      return invalid("INVALID_RECIPE", `Recipe at index ${i} missing or invalid data`);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a recipe sync payload from an uploaded file
+ *
+ * Performs the same structural checks as the sync endpoint.
+ *
+ * @throws InvalidRecipesFileError if the file isn't JSON or fails the checks
+ */
+export async function parseRecipesFile(filePath: string): Promise<RecipeSyncRequest> {
+  const content = await readFile(filePath, "utf-8");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new InvalidRecipesFileError("not valid JSON");
+  }
+
+  const invalid = checkRecipeSyncRequest(data);
+  if (invalid) {
+    throw new InvalidRecipesFileError(invalid.error.message);
+  }
+
+  return data as RecipeSyncRequest;
+}
+
+/**
+ * Shape a sync result as the API response
+ */
+export function buildSyncResponse(result: RecipeSyncResult): RecipeSyncResponse {
+  return {
+    success: true,
+    stats: {
+      received: result.received,
+      new: result.new,
+      updated: result.updated,
+      unchanged: result.unchanged,
+      invalid: result.invalid,
+      removed: result.removed,
+    },
+    errors: result.errors,
+    contentHash: result.contentHash,
+    version: result.version,
+  };
+}
+
+/**
+ * Validate the data of every recipe in a sync request
+ *
+ * Only the last occurrence of a recipeId is validated, as only that one
+ * is written. Returns one report per invalid recipe, in request order.
+ */
+function validateRecipes(recipes: RecipeSyncInput[]): RecipeValidationReport[] {
+  const reports: RecipeValidationReport[] = [];
+  const lastIndex = new Map(recipes.map((recipe, index) => [recipe.recipeId, index]));
+
+  recipes.forEach((recipe, index) => {
+    if (lastIndex.get(recipe.recipeId) !== index) return;
+
+    const issues = validateRecipeData(recipe.data);
+    if (recipe.data.type !== undefined && recipe.data.type !== recipe.type) {
+      issues.push({ path: "type", message: `does not match recipe type '${recipe.type}'` });
+    }
+    if (issues.length > 0) reports.push({ recipeId: recipe.recipeId, index, issues });
+  });
+
+  return reports;
+}
+
 /**
  * Find or create a modpack version
  *
@@ -163,8 +547,7 @@ async function findOrCreateModpackVersion(
       version,
       manifestHash,
       isVerified: false, // Will be verified by manifestVerification service if applicable
-      syncedById: userId,
-      syncedAt: new Date(),
+      syncedById: userId, // syncedAt is set when the first sync commits
     },
   });
 
@@ -174,90 +557,273 @@ async function findOrCreateModpackVersion(
 }
 
 /**
- * Upsert recipes with change detection
+ * Compare incoming recipes with stored ones
  *
- * Compares incoming recipes with existing ones to track
- * new, updated, and unchanged counts.
+ * New and changed recipes (by content hash) are written with a fresh
+ * ingredient index. Unchanged recipes are only written when their
+ * validation issues changed or they predate per-recipe hashes, and only
+ * reindexed when their index is missing. Tombstoned recipes that are
+ * exported again are revived as updated. Later duplicates of a recipeId
+ * win.
  */
-async function upsertRecipes(
+async function planRecipeWrites(
   fastify: FastifyInstance,
   modpackVersionId: string,
   recipes: RecipeSyncInput[],
-): Promise<UpsertStats> {
-  let newCount = 0;
-  let updatedCount = 0;
-  let unchangedCount = 0;
-
-  // Process in batches for performance
-  const BATCH_SIZE = 100;
-
-  for (let i = 0; i < recipes.length; i += BATCH_SIZE) {
-    const batch = recipes.slice(i, i + BATCH_SIZE);
-
-    // Fetch existing recipes for this batch
-    const recipeIds = batch.map((r) => r.recipeId);
-    const existingRecipes = await fastify.prisma.recipe.findMany({
-      where: {
-        modpackVersionId,
-        recipeId: { in: recipeIds },
-      },
+  issuesByRecipe: Map<string, RecipeValidationIssue[]>,
+): Promise<{ writes: RecipeWrite[]; stats: UpsertStats }> {
+  const incoming = new Map(recipes.map((recipe) => [recipe.recipeId, recipe]));
+  const stored = await fastify.prisma.$queryRaw<StoredRecipe[]>`
+    SELECT r.id, r.recipe_id AS "recipeId", r.content_hash AS "contentHash",
+      r.removed_at IS NOT NULL AS removed, r.validation_issues AS "validationIssues",
+      EXISTS (SELECT 1 FROM recipe_ingredients ri WHERE ri.recipe_id = r.id) AS indexed,
+      CASE WHEN r.content_hash IS NULL
+        THEN jsonb_build_object('type', r.type, 'sourceMod', r.source_mod, 'data', r.data)
+      END AS legacy
+    FROM recipes r
+    WHERE r.modpack_version_id = ${modpackVersionId}
+      AND r.recipe_id = ANY(${Array.from(incoming.keys())}::text[])
+  `;
+  const storedMap = new Map(stored.map((recipe) => [recipe.recipeId, recipe]));
+
+  const writes: RecipeWrite[] = [];
+  const stats: UpsertStats = { new: 0, updated: 0, unchanged: 0 };
+
+  for (const recipe of incoming.values()) {
+    const existing = storedMap.get(recipe.recipeId);
+    const validationIssues = issuesByRecipe.get(recipe.recipeId) ?? null;
+    const contentHash = hashRecipe(recipe);
+    const write = { recipe, contentHash, validationIssues, id: existing?.id };
+
+    if (!existing) {
+      writes.push({ ...write, upsert: true, reindex: true });
+      stats.new++;
+      continue;
+    }
+
+    // Recipes stored before per-recipe hashes are hashed from their stored data
+    const storedHash = existing.contentHash ?? (existing.legacy && hashRecipe(existing.legacy));
+    if (existing.removed || storedHash !== contentHash) {
+      writes.push({ ...write, upsert: true, reindex: true });
+      stats.updated++;
+      continue;
+    }
+
+    const upsert =
+      existing.contentHash === null ||
+      JSON.stringify(existing.validationIssues) !== JSON.stringify(validationIssues);
+    if (upsert || !existing.indexed) {
+      writes.push({ ...write, upsert, reindex: !existing.indexed });
+    }
+    stats.unchanged++;
+  }
+
+  return { writes, stats };
+}
+
+/**
+ * Write planned recipes and their ingredient index
+ *
+ * Recipe rows go in with multi-row INSERT ... ON CONFLICT statements and
+ * index rows with createMany, so a sync takes a few hundred statements
+ * instead of one per recipe.
+ */
+async function writeRecipes(
+  tx: Prisma.TransactionClient,
+  modpackVersionId: string,
+  writes: RecipeWrite[],
+  onProgress: SyncProgressCallback,
+): Promise<void> {
+  const ids = new Map<string, string>();
+
+  const upserts = writes.filter((write) => write.upsert);
+  onProgress({ phase: "writing", processed: 0, total: upserts.length });
+  for (let i = 0; i < upserts.length; i += WRITE_BATCH_SIZE) {
+    const rows = upserts.slice(i, i + WRITE_BATCH_SIZE).map(
+      ({ recipe, contentHash, validationIssues, id }) => Prisma.sql`(
+        ${id ?? randomUUID()}, ${modpackVersionId}, ${recipe.recipeId}, ${recipe.type},
+        ${recipe.sourceMod}, ${JSON.stringify(recipe.data)}::jsonb,
+        ${validationIssues ? JSON.stringify(validationIssues) : null}::jsonb, ${contentHash}
+      )`,
+    );
+
+    // The returned id is the stored one when the row already existed
+    const written = await tx.$queryRaw<Array<{ id: string; recipeId: string }>>`
+      INSERT INTO recipes (id, modpack_version_id, recipe_id, type, source_mod, data,
+        validation_issues, content_hash)
+      VALUES ${Prisma.join(rows)}
+      ON CONFLICT (modpack_version_id, recipe_id) DO UPDATE SET
+        type = EXCLUDED.type,
+        source_mod = EXCLUDED.source_mod,
+        data = EXCLUDED.data,
+        validation_issues = EXCLUDED.validation_issues,
+        content_hash = EXCLUDED.content_hash,
+        removed_at = NULL
+      RETURNING id, recipe_id AS "recipeId"
+    `;
+    written.forEach((row) => ids.set(row.recipeId, row.id));
+    onProgress({
+      phase: "writing",
+      processed: Math.min(i + WRITE_BATCH_SIZE, upserts.length),
+      total: upserts.length,
+    });
+  }
+
+  const reindexed = writes.flatMap((write) => {
+    const id = ids.get(write.recipe.recipeId) ?? write.id;
+    return write.reindex && id ? [{ id, recipe: write.recipe }] : [];
+  });
+
+  for (let i = 0; i < reindexed.length; i += WRITE_BATCH_SIZE) {
+    await tx.recipeIngredient.deleteMany({
+      where: { recipeId: { in: reindexed.slice(i, i + WRITE_BATCH_SIZE).map(({ id }) => id) } },
+    });
+  }
+
+  const ingredientRows = reindexed.flatMap(({ id, recipe }) =>
+    buildIngredientRows(modpackVersionId, recipe).map((row) => ({ ...row, recipeId: id })),
+  );
+  onProgress({ phase: "indexing", processed: 0, total: ingredientRows.length });
+  for (let i = 0; i < ingredientRows.length; i += INGREDIENT_BATCH_SIZE) {
+    await tx.recipeIngredient.createMany({
+      data: ingredientRows.slice(i, i + INGREDIENT_BATCH_SIZE),
+    });
+    onProgress({
+      phase: "indexing",
+      processed: Math.min(i + INGREDIENT_BATCH_SIZE, ingredientRows.length),
+      total: ingredientRows.length,
+    });
+  }
+}
+
+/**
+ * Tombstone or delete stored recipes that are no longer exported
+ *
+ * Tombstones keep the recipe row but drop its ingredient index, so
+ * lookups and production trees stop offering it.
+ */
+async function removeMissingRecipes(
+  tx: Prisma.TransactionClient,
+  modpackVersionId: string,
+  payload: RecipeSyncRequest,
+  onProgress: SyncProgressCallback,
+): Promise<number> {
+  let removedIds: string[];
+  if (payload.delta) {
+    removedIds = payload.removedRecipeIds ?? [];
+  } else {
+    const exported = new Set(payload.recipes.map((recipe) => recipe.recipeId));
+    const stored = await tx.recipe.findMany({
+      where: { modpackVersionId, removedAt: null },
+      select: { recipeId: true },
     });
+    removedIds = stored
+      .map((recipe) => recipe.recipeId)
+      .filter((recipeId) => !exported.has(recipeId));
+  }
+
+  let removed = 0;
+  const removedAt = new Date();
+  onProgress({ phase: "removing", processed: 0, total: removedIds.length });
+
+  for (let i = 0; i < removedIds.length; i += WRITE_BATCH_SIZE) {
+    const where = {
+      modpackVersionId,
+      recipeId: { in: removedIds.slice(i, i + WRITE_BATCH_SIZE) },
+      removedAt: null,
+    };
 
-    const existingMap = new Map(existingRecipes.map((r) => [r.recipeId, r]));
-
-    // Process each recipe in the batch
-    for (const recipe of batch) {
-      const existing = existingMap.get(recipe.recipeId);
-
-      if (!existing) {
-        // New recipe - create it
-        await fastify.prisma.recipe.create({
-          data: {
-            modpackVersionId,
-            recipeId: recipe.recipeId,
-            type: recipe.type,
-            sourceMod: recipe.sourceMod,
-            data: recipe.data as object,
-          },
-        });
-        newCount++;
-      } else {
-        // Existing recipe - check for changes
-        const hasChanges = hasRecipeChanged(existing, recipe);
-
-        if (hasChanges) {
-          await fastify.prisma.recipe.update({
-            where: { id: existing.id },
-            data: {
-              type: recipe.type,
-              sourceMod: recipe.sourceMod,
-              data: recipe.data as object,
-            },
-          });
-          updatedCount++;
-        } else {
-          unchangedCount++;
-        }
-      }
+    if (payload.removal === "delete") {
+      // Ingredient rows go with the recipe (cascade)
+      const result = await tx.recipe.deleteMany({ where });
+      removed += result.count;
+    } else {
+      await tx.recipeIngredient.deleteMany({ where: { recipe: where } });
+      const result = await tx.recipe.updateMany({ where, data: { removedAt } });
+      removed += result.count;
     }
+    onProgress({
+      phase: "removing",
+      processed: Math.min(i + WRITE_BATCH_SIZE, removedIds.length),
+      total: removedIds.length,
+    });
   }
 
-  return { new: newCount, updated: updatedCount, unchanged: unchangedCount };
+  return removed;
+}
+
+/**
+ * Build ingredient index rows for a recipe
+ *
+ * Every alternative of a multi-option input gets its own row, so lookups
+ * find the recipe through any accepted item or tag.
+ */
+function buildIngredientRows(modpackVersionId: string, recipe: RecipeSyncInput) {
+  return extractIngredients(recipe.data as unknown as RecipeData).flatMap((entry) =>
+    [entry.id, ...(entry.alternatives ?? [])].map((ingredientId) => ({
+      modpackVersionId,
+      ingredientId,
+      kind: isTagId(ingredientId) ? "tag" : entry.kind,
+      role: entry.role === "input" ? ("INPUT" as const) : ("OUTPUT" as const),
+      amount: entry.amount,
+      chance: entry.chance ?? null,
+    })),
+  );
+}
+
+/**
+ * contentHash of a recipe set
+ */
+function hashRecipeSet(entries: RecipeHashEntry[]): string {
+  return hashString(canonicalRecipeSetJson(entries));
 }
 
 /**
- * Check if a recipe has changed compared to existing data
+ * contentHash the recipes of a sync add up to
+ *
+ * A delta sync only sends part of the set; the rest comes from the
+ * per-recipe hashes already stored, minus the recipes it removes.
+ * Later duplicates of a recipeId win, as when writing.
  */
-function hasRecipeChanged(existing: Recipe, incoming: RecipeSyncInput): boolean {
-  // Check simple fields first
-  if (existing.type !== incoming.type) return true;
-  if (existing.sourceMod !== incoming.sourceMod) return true;
+async function recipeSetHash(
+  fastify: FastifyInstance,
+  modpackVersionId: string | null, // null if the version doesn't exist yet
+  payload: RecipeSyncRequest,
+): Promise<string> {
+  const hashes = new Map<string, string>();
+
+  if (payload.delta && modpackVersionId) {
+    const stored = await fastify.prisma.$queryRaw<
+      Array<Pick<StoredRecipe, "recipeId" | "contentHash" | "legacy">>
+    >`
+      SELECT recipe_id AS "recipeId", content_hash AS "contentHash",
+        CASE WHEN content_hash IS NULL
+          THEN jsonb_build_object('type', type, 'sourceMod', source_mod, 'data', data)
+        END AS legacy
+      FROM recipes
+      WHERE modpack_version_id = ${modpackVersionId} AND removed_at IS NULL
+    `;
+    for (const recipe of stored) {
+      const hash = recipe.contentHash ?? (recipe.legacy && hashRecipe(recipe.legacy));
+      if (hash) hashes.set(recipe.recipeId, hash);
+    }
+    for (const recipeId of payload.removedRecipeIds ?? []) {
+      hashes.delete(recipeId);
+    }
+  }
 
-  // Compare JSON data
-  const existingData = JSON.stringify(existing.data);
-  const incomingData = JSON.stringify(incoming.data);
+  for (const recipe of payload.recipes) {
+    hashes.set(recipe.recipeId, hashRecipe(recipe));
+  }
+
+  return hashRecipeSet(Array.from(hashes, ([recipeId, hash]) => ({ recipeId, hash })));
+}
 
-  return existingData !== incomingData;
+/**
+ * Per-recipe hash used by delta sync
+ */
+function hashRecipe(recipe: Pick<RecipeSyncInput, "type" | "sourceMod" | "data">): string {
+  return hashString(canonicalRecipeJson(recipe));
 }
 
 /**
@@ -272,14 +838,14 @@ function formatModpackName(slug: string): string {
 }
 
 /**
- * Get recipe count for a modpack version
+ * Get live (not tombstoned) recipe count for a modpack version
  */
 export async function getRecipeCount(
   fastify: FastifyInstance,
   modpackVersionId: string,
 ): Promise<number> {
   return fastify.prisma.recipe.count({
-    where: { modpackVersionId },
+    where: { modpackVersionId, removedAt: null },
   });
 }
 
@@ -0,0 +1,153 @@
+/**
+ * Recipe query service
+ *
+ * Filters the recipes of a modpack version by the items they consume or
+ * produce (via the recipe_ingredients index) and by machine metadata
+ * stored inside the JSONB `data` field.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
+import { DEFAULT_ENERGY_CONFIG, normalizeRecipe } from "@recipeflow/shared";
+import type {
+  EnergyConfig,
+  RecipeData,
+  RecipeQueryResult,
+  RecipeValidationIssue,
+  SearchQuery,
+  VoltageTier,
+} from "@recipeflow/shared";
+import { compileRecipeSearch } from "./searchQuery.js";
+import type { PageParams } from "../utils/pagination.js";
+
+// ==================== TYPES ====================
+
+export interface RecipeQueryFilters {
+  outputItem?: string;
+  inputItem?: string;
+  type?: string;
+  machineType?: string;
+  voltageTier?: VoltageTier;
+  sourceMod?: string;
+  search?: SearchQuery; // Parsed JEI-style query
+}
+
+export interface RecipeQueryResultPage {
+  recipes: RecipeQueryResult[];
+  total: number;
+}
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Query recipes for a modpack version
+ *
+ * All filters are optional and combined with AND. Results are ordered
+ * by recipeId so pages are stable between requests. Each recipe comes
+ * with its normalized view, using the version's energy ratios.
+ */
+export async function queryRecipes(
+  fastify: FastifyInstance,
+  modpackVersionId: string,
+  filters: RecipeQueryFilters,
+  { page, limit }: PageParams,
+  energyConfig: EnergyConfig = DEFAULT_ENERGY_CONFIG,
+): Promise<RecipeQueryResultPage> {
+  const where = buildWhereClause(modpackVersionId, filters);
+  const offset = (page - 1) * limit;
+
+  const [rows, countRows] = await Promise.all([
+    fastify.prisma.$queryRaw<
+      Array<{
+        recipeId: string;
+        type: string;
+        sourceMod: string;
+        data: unknown;
+        validationIssues: unknown;
+      }>
+    >`
+      SELECT recipe_id AS "recipeId", type, source_mod AS "sourceMod", data,
+        validation_issues AS "validationIssues"
+      FROM recipes
+      WHERE ${where}
+      ORDER BY recipe_id
+      LIMIT ${limit} OFFSET ${offset}
+    `,
+    fastify.prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS count FROM recipes WHERE ${where}
+    `,
+  ]);
+
+  return {
+    recipes: rows.map((row) => ({
+      recipeId: row.recipeId,
+      type: row.type,
+      sourceMod: row.sourceMod,
+      data: row.data as RecipeData,
+      normalized: normalizeRecipe(row.data as RecipeData, energyConfig),
+      ...(row.validationIssues
+        ? { validationIssues: row.validationIssues as RecipeValidationIssue[] }
+        : {}),
+    })),
+    total: Number(countRows[0]?.count ?? 0),
+  };
+}
+
+/**
+ * Build the SQL WHERE clause for a set of filters
+ */
+function buildWhereClause(modpackVersionId: string, filters: RecipeQueryFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [
+    Prisma.sql`modpack_version_id = ${modpackVersionId}`,
+    Prisma.sql`removed_at IS NULL`,
+  ];
+
+  if (filters.type) {
+    conditions.push(Prisma.sql`type = ${filters.type}`);
+  }
+  if (filters.sourceMod) {
+    conditions.push(Prisma.sql`source_mod = ${filters.sourceMod}`);
+  }
+  if (filters.machineType) {
+    conditions.push(Prisma.sql`data->>'machineType' = ${filters.machineType}`);
+  }
+  if (filters.voltageTier) {
+    conditions.push(Prisma.sql`data->>'voltageTier' = ${filters.voltageTier}`);
+  }
+  if (filters.outputItem) {
+    conditions.push(hasIngredient(modpackVersionId, "OUTPUT", filters.outputItem));
+  }
+  if (filters.inputItem) {
+    conditions.push(hasIngredient(modpackVersionId, "INPUT", filters.inputItem));
+  }
+  if (filters.search) {
+    conditions.push(compileRecipeSearch(modpackVersionId, filters.search));
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+/**
+ * Match recipes with an indexed ingredient in the given role
+ *
+ * An item also matches through any tag it belongs to, e.g. iron ingots
+ * find recipes taking "#forge:ingots/iron".
+ */
+function hasIngredient(
+  modpackVersionId: string,
+  role: "INPUT" | "OUTPUT",
+  ingredientId: string,
+): Prisma.Sql {
+  return Prisma.sql`id IN (
+    SELECT recipe_id FROM recipe_ingredients
+    WHERE modpack_version_id = ${modpackVersionId}
+      AND role = ${role}::"IngredientRole"
+      AND (
+        ingredient_id = ${ingredientId}
+        OR ingredient_id IN (
+          SELECT '#' || tag FROM item_tags
+          WHERE modpack_version_id = ${modpackVersionId} AND item_id = ${ingredientId}
+        )
+      )
+  )`;
+}
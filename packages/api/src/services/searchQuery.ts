@@ -0,0 +1,180 @@
+/**
+ * Search query compiler
+ *
+ * Turns a parsed JEI-style SearchQuery into SQL conditions over the
+ * `items` and `recipes` tables of a modpack version.
+ */
+
+import { Prisma } from "@prisma/client";
+import type { SearchQuery, SearchTerm } from "@recipeflow/shared";
+
+// ==================== TYPES ====================
+
+export interface ItemSearchCompileOptions {
+  /** Also match plain text terms against tooltip lines */
+  includeTooltip: boolean;
+}
+
+// ==================== COMPILERS ====================
+
+/**
+ * Compile a query into a WHERE condition over `items`
+ *
+ * Recipe-only terms (tier, machine, type) match items produced by a
+ * recipe with that property, e.g. `machine:chemical_reactor`.
+ */
+export function compileItemSearch(
+  modpackVersionId: string,
+  query: SearchQuery,
+  { includeTooltip }: ItemSearchCompileOptions,
+): Prisma.Sql {
+  return compileGroups(query, (term) => {
+    switch (term.kind) {
+      case "text": {
+        const pattern = containsPattern(term.value);
+        const tooltip = includeTooltip ? tooltipMatches(pattern) : Prisma.sql`FALSE`;
+        return Prisma.sql`(
+          item_id = ${term.value}
+          OR ${term.value} <% display_name
+          OR display_name ILIKE ${pattern}
+          OR ${tooltip}
+        )`;
+      }
+      case "mod":
+        return Prisma.sql`split_part(item_id, ':', 1) ILIKE ${prefixPattern(term.value)}`;
+      case "tooltip":
+        return tooltipMatches(containsPattern(term.value));
+      case "tag":
+        return Prisma.sql`item_id IN (
+          SELECT t.item_id FROM item_tags t
+          WHERE t.modpack_version_id = ${modpackVersionId} AND t.tag = ${term.value}
+        )`;
+      case "tier":
+      case "machine":
+      case "type":
+        return Prisma.sql`item_id IN (
+          SELECT ri.ingredient_id FROM recipe_ingredients ri
+          JOIN recipes r ON r.id = ri.recipe_id
+          WHERE ri.modpack_version_id = ${modpackVersionId}
+            AND ri.role = 'OUTPUT'
+            AND ${recipePropertyMatches(term, "r")}
+        )`;
+    }
+  });
+}
+
+/**
+ * Compile a query into a WHERE condition over `recipes`
+ *
+ * Text and tooltip terms match the display names and tooltips of the
+ * items a recipe produces, or the recipe id itself.
+ */
+export function compileRecipeSearch(modpackVersionId: string, query: SearchQuery): Prisma.Sql {
+  const outputItemMatches = (condition: Prisma.Sql) => Prisma.sql`id IN (
+    SELECT ri.recipe_id FROM recipe_ingredients ri
+    JOIN items i ON i.modpack_version_id = ri.modpack_version_id AND i.item_id = ri.ingredient_id
+    WHERE ri.modpack_version_id = ${modpackVersionId}
+      AND ri.role = 'OUTPUT'
+      AND ${condition}
+  )`;
+
+  return compileGroups(query, (term) => {
+    switch (term.kind) {
+      case "text": {
+        const pattern = containsPattern(term.value);
+        return Prisma.sql`(
+          recipe_id ILIKE ${pattern}
+          OR ${outputItemMatches(Prisma.sql`i.display_name ILIKE ${pattern}`)}
+        )`;
+      }
+      case "mod":
+        return Prisma.sql`source_mod ILIKE ${prefixPattern(term.value)}`;
+      case "tooltip":
+        return outputItemMatches(tooltipMatches(containsPattern(term.value), "i"));
+      case "tag":
+        // Recipes taking the tag itself, or using any item in it
+        return Prisma.sql`id IN (
+          SELECT ri.recipe_id FROM recipe_ingredients ri
+          WHERE ri.modpack_version_id = ${modpackVersionId}
+            AND (
+              ri.ingredient_id = ${`#${term.value}`}
+              OR ri.ingredient_id IN (
+                SELECT t.item_id FROM item_tags t
+                WHERE t.modpack_version_id = ${modpackVersionId} AND t.tag = ${term.value}
+              )
+            )
+        )`;
+      case "tier":
+      case "machine":
+      case "type":
+        return recipePropertyMatches(term, "recipes");
+    }
+  });
+}
+
+/**
+ * Positive plain text of a query, used to rank fuzzy matches
+ */
+export function rankingText(query: SearchQuery): string {
+  return query.groups
+    .flat()
+    .filter((term) => term.kind === "text" && !term.negated)
+    .map((term) => term.value)
+    .join(" ");
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Combine terms as OR of AND groups, applying negation per term
+ *
+ * A condition on a missing JSONB key is NULL, so negated terms treat
+ * NULL as no match: `-tier:HV` keeps recipes without a voltage tier.
+ */
+function compileGroups(query: SearchQuery, compileTerm: (term: SearchTerm) => Prisma.Sql) {
+  if (query.groups.length === 0) {
+    return Prisma.sql`TRUE`;
+  }
+
+  const groups = query.groups.map((group) => {
+    const terms = group.map((term) => {
+      const condition = compileTerm(term);
+      return term.negated ? Prisma.sql`NOT COALESCE((${condition}), FALSE)` : condition;
+    });
+    return Prisma.sql`(${Prisma.join(terms, " AND ")})`;
+  });
+
+  return Prisma.sql`(${Prisma.join(groups, " OR ")})`;
+}
+
+function recipePropertyMatches(term: SearchTerm, table: "r" | "recipes"): Prisma.Sql {
+  const alias = Prisma.raw(table);
+  switch (term.kind) {
+    case "tier":
+      return Prisma.sql`${alias}.data->>'voltageTier' = ${term.value}`;
+    case "machine":
+      return Prisma.sql`${alias}.data->>'machineType' = ${term.value}`;
+    default:
+      return Prisma.sql`${alias}.type = ${term.value}`;
+  }
+}
+
+function tooltipMatches(pattern: string, table?: "i"): Prisma.Sql {
+  const column = table ? Prisma.raw(`${table}.tooltip`) : Prisma.raw("tooltip");
+  return Prisma.sql`EXISTS (SELECT 1 FROM unnest(${column}) AS line WHERE line ILIKE ${pattern})`;
+}
+
+function containsPattern(value: string): string {
+  return `%${escapeLikePattern(value)}%`;
+}
+
+function prefixPattern(value: string): string {
+  return `${escapeLikePattern(value)}%`;
+}
+
+/**
+ * Escape LIKE wildcards so user input matches literally
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,167 @@
+/**
+ * Sync history service
+ *
+ * Records an audit entry for every recipe sync and upload completion, and
+ * lists them per modpack version.
+ */
+
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type {
+  SyncEventKind,
+  SyncEventOutcome,
+  SyncEventStats,
+  SyncEventSummary,
+  UploadType,
+} from "@recipeflow/shared";
+import type { PageParams } from "../utils/pagination.js";
+import { env } from "../config/env.js";
+
+// Type inferred from Prisma query
+type SyncEvent = NonNullable<
+  Awaited<ReturnType<FastifyInstance["prisma"]["syncEvent"]["findUnique"]>>
+>;
+
+// ==================== TYPES ====================
+
+export interface SyncEventInput {
+  modpackVersionId: string;
+  userId: string;
+  kind: SyncEventKind;
+  uploadType?: UploadType;
+  outcome: SyncEventOutcome;
+  errorCode?: string;
+  contentHash?: string;
+  previousHash?: string | null;
+  manifestHash?: string | null;
+  stats?: SyncEventStats;
+  durationMs: number;
+  clientVersion?: string;
+  jobId?: string;
+}
+
+export interface SyncEventPage {
+  syncs: SyncEventSummary[];
+  total: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const CLIENT_VERSION_HEADER = "x-client-version";
+const MAX_CLIENT_VERSION_LENGTH = 64;
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Record a sync event
+ *
+ * Never throws: a failed audit write is logged but must not fail the sync
+ * it describes.
+ */
+export async function recordSyncEvent(
+  fastify: FastifyInstance,
+  event: SyncEventInput,
+): Promise<void> {
+  try {
+    await fastify.prisma.syncEvent.create({
+      data: {
+        ...event,
+        stats: event.stats ? { ...event.stats } : undefined,
+        durationMs: Math.round(event.durationMs),
+      },
+    });
+  } catch (error) {
+    fastify.log.warn(
+      { error, versionId: event.modpackVersionId, kind: event.kind },
+      "Failed to record sync event",
+    );
+  }
+}
+
+/**
+ * List the sync history of a modpack version, newest first
+ *
+ * Covers every manifest the version string was synced with, since
+ * official and modified packs share it.
+ */
+export async function listSyncEvents(
+  fastify: FastifyInstance,
+  modpackSlug: string,
+  version: string,
+  { page, limit }: PageParams,
+): Promise<SyncEventPage> {
+  const where = { modpackVersion: { version, modpack: { slug: modpackSlug } } };
+
+  const [rows, total] = await Promise.all([
+    fastify.prisma.syncEvent.findMany({
+      where,
+      include: { user: { select: { id: true, username: true } } },
+      orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    fastify.prisma.syncEvent.count({ where }),
+  ]);
+
+  return { syncs: rows.map(toSummary), total };
+}
+
+/**
+ * Whether a user may read the sync history of a version
+ *
+ * Admins and users who synced or uploaded to the version may; the history
+ * exposes contributors and content hashes, so it is not public.
+ */
+export async function canViewSyncEvents(
+  fastify: FastifyInstance,
+  modpackSlug: string,
+  version: string,
+  userId: string,
+): Promise<boolean> {
+  if (env.adminUserIds.includes(userId)) return true;
+
+  const versionWhere = { version, modpack: { slug: modpackSlug } };
+  const [syncedVersion, event] = await Promise.all([
+    fastify.prisma.modpackVersion.findFirst({
+      where: { ...versionWhere, syncedById: userId },
+      select: { id: true },
+    }),
+    fastify.prisma.syncEvent.findFirst({
+      where: { modpackVersion: versionWhere, userId },
+      select: { id: true },
+    }),
+  ]);
+
+  return syncedVersion !== null || event !== null;
+}
+
+/**
+ * Companion mod version sent with a request, if any
+ */
+export function clientVersionOf(request: FastifyRequest): string | undefined {
+  const header = request.headers[CLIENT_VERSION_HEADER];
+  const value = (Array.isArray(header) ? header[0] : header)?.trim();
+  return value ? value.slice(0, MAX_CLIENT_VERSION_LENGTH) : undefined;
+}
+
+// ==================== HELPERS ====================
+
+function toSummary(
+  row: SyncEvent & { user: { id: string; username: string } | null },
+): SyncEventSummary {
+  return {
+    id: row.id,
+    kind: row.kind as SyncEventKind,
+    uploadType: row.uploadType as UploadType | null,
+    outcome: row.outcome as SyncEventOutcome,
+    errorCode: row.errorCode,
+    user: row.user,
+    contentHash: row.contentHash,
+    previousHash: row.previousHash,
+    manifestHash: row.manifestHash,
+    stats: row.stats as SyncEventStats | null,
+    durationMs: row.durationMs,
+    clientVersion: row.clientVersion,
+    jobId: row.jobId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
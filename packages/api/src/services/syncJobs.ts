@@ -0,0 +1,518 @@
+/**
+ * Background sync job service
+ *
+ * Recipe syncs and manifest verification run one at a time in an
+ * in-process worker loop instead of inside the HTTP request. Job state is
+ * kept in sync_jobs so it can be polled; payloads and live progress stay
+ * in memory, so jobs cut off by a restart are marked failed on startup.
+ */
+
+import { EventEmitter } from "events";
+import type { FastifyInstance } from "fastify";
+import { Prisma } from "@prisma/client";
+import type {
+  ManifestVerificationSummary,
+  RecipeSyncRequest,
+  RecipeSyncResponse,
+  SyncJobError,
+  SyncJobProgress,
+  SyncJobResponse,
+  SyncJobStatus,
+  SyncJobType,
+} from "@recipeflow/shared";
+import {
+  buildSyncResponse,
+  ContentHashMismatchError,
+  RecipeValidationError,
+  syncRecipes,
+} from "./recipeImport.js";
+import { verifyModpackVersion } from "./manifestVerification.js";
+import { recordSyncEvent } from "./syncEvents.js";
+
+// Type inferred from Prisma query
+type SyncJob = NonNullable<Awaited<ReturnType<FastifyInstance["prisma"]["syncJob"]["findUnique"]>>>;
+
+// ==================== TYPES ====================
+
+export interface RecipeSyncJobParams {
+  modpackSlug: string;
+  version: string;
+  userId: string;
+  payload: RecipeSyncRequest;
+  clientVersion?: string; // Recorded in the sync history
+}
+
+type SyncTask =
+  | ({ type: "recipe_sync"; jobId: string } & RecipeSyncJobParams)
+  | { type: "manifest_verification"; jobId: string; modpackVersionId: string };
+
+/** Queued or running job, as held by the worker */
+interface LiveJob {
+  userId: string;
+  job: SyncJobResponse;
+  modpackVersionId: string | null;
+  persistedAt: number;
+  saving: Promise<void>; // Writes are chained so they land in order
+}
+
+// ==================== CONSTANTS ====================
+
+// Progress is written to the database at most this often (subscribers get every update)
+const PROGRESS_PERSIST_INTERVAL_MS = 1000;
+
+// Queued and running recipe syncs hold their whole payload in memory
+const MAX_PENDING_RECIPE_SYNCS = 8;
+const MAX_PENDING_RECIPE_SYNCS_PER_USER = 2;
+
+const JOB_STATUSES: Record<SyncJob["status"], SyncJobStatus> = {
+  QUEUED: "queued",
+  RUNNING: "running",
+  SUCCEEDED: "succeeded",
+  FAILED: "failed",
+};
+
+// ==================== ERROR CLASSES ====================
+
+/**
+ * Too many recipe syncs are pending, for everyone ("global") or for the
+ * requesting user ("user")
+ */
+export class SyncQueueFullError extends Error {
+  public readonly scope: "global" | "user";
+  public readonly limit: number;
+
+  constructor(scope: "global" | "user", limit: number) {
+    super(
+      scope === "global"
+        ? `Sync queue is full (${limit} pending syncs)`
+        : `Too many pending syncs (limit ${limit} per user)`,
+    );
+    this.name = "SyncQueueFullError";
+    this.scope = scope;
+    this.limit = limit;
+  }
+}
+
+// ==================== STATE ====================
+
+const queue: SyncTask[] = [];
+const liveJobs = new Map<string, LiveJob>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+let workerRunning = false;
+let wakeWorker: (() => void) | null = null;
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Queue a recipe sync
+ *
+ * The payload must already have passed the sync endpoint's structural
+ * checks. Validation, hash verification and writing happen in the job,
+ * followed by manifest verification of the synced version.
+ *
+ * @throws SyncQueueFullError if too many syncs are queued or running
+ */
+export async function enqueueRecipeSync(
+  fastify: FastifyInstance,
+  params: RecipeSyncJobParams,
+): Promise<SyncJobResponse> {
+  const pending = [...liveJobs.values()].filter((live) => live.job.type === "recipe_sync");
+  if (pending.length >= MAX_PENDING_RECIPE_SYNCS) {
+    throw new SyncQueueFullError("global", MAX_PENDING_RECIPE_SYNCS);
+  }
+  if (
+    pending.filter((live) => live.userId === params.userId).length >=
+    MAX_PENDING_RECIPE_SYNCS_PER_USER
+  ) {
+    throw new SyncQueueFullError("user", MAX_PENDING_RECIPE_SYNCS_PER_USER);
+  }
+
+  const job = await createJob(fastify, "recipe_sync", params.userId, null);
+  queue.push({ type: "recipe_sync", jobId: job.id, ...params });
+  wakeWorker?.();
+  return job;
+}
+
+/**
+ * Queue manifest verification of a modpack version
+ */
+export async function enqueueManifestVerification(
+  fastify: FastifyInstance,
+  modpackVersionId: string,
+  userId: string,
+): Promise<SyncJobResponse> {
+  const job = await createJob(fastify, "manifest_verification", userId, modpackVersionId);
+  queue.push({ type: "manifest_verification", jobId: job.id, modpackVersionId });
+  wakeWorker?.();
+  return job;
+}
+
+/**
+ * Get a job started by the given user
+ *
+ * Returns null for unknown jobs and for jobs of other users.
+ */
+export async function getSyncJob(
+  fastify: FastifyInstance,
+  jobId: string,
+  userId: string,
+): Promise<SyncJobResponse | null> {
+  const live = liveJobs.get(jobId);
+  if (live) {
+    return live.userId === userId ? live.job : null;
+  }
+
+  const row = await fastify.prisma.syncJob.findUnique({ where: { id: jobId } });
+  return row && row.userId === userId ? toJobResponse(row) : null;
+}
+
+/**
+ * Listen for updates of a job
+ *
+ * The listener gets the job state after every change, up to and including
+ * the one that finishes it. Returns a function that stops listening.
+ */
+export function subscribeToSyncJob(
+  jobId: string,
+  listener: (job: SyncJobResponse) => void,
+): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+/**
+ * Check whether a job has finished, successfully or not
+ */
+export function isJobFinished(job: SyncJobResponse): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+// ==================== WORKER ====================
+
+/**
+ * Start the worker loop
+ *
+ * Jobs left queued or running by a previous process are failed first,
+ * since their payloads are gone. Only jobs created before the worker
+ * started count: requests served meanwhile enqueue jobs of their own.
+ */
+export function startSyncWorker(fastify: FastifyInstance): void {
+  if (workerRunning) {
+    fastify.log.warn("Sync worker already running");
+    return;
+  }
+
+  workerRunning = true;
+  runWorker(fastify, new Date()).catch((error) => {
+    workerRunning = false;
+    fastify.log.error(error, "Sync worker stopped unexpectedly");
+  });
+
+  fastify.log.info("Sync worker started");
+}
+
+/**
+ * Stop the worker loop after the current job
+ */
+export function stopSyncWorker(fastify: FastifyInstance): void {
+  if (workerRunning) {
+    workerRunning = false;
+    wakeWorker?.();
+    fastify.log.info("Sync worker stopped");
+  }
+}
+
+async function runWorker(fastify: FastifyInstance, startedAt: Date): Promise<void> {
+  const interrupted = await fastify.prisma.syncJob.updateMany({
+    where: { status: { in: ["QUEUED", "RUNNING"] }, createdAt: { lt: startedAt } },
+    data: {
+      status: "FAILED",
+      error: { code: "INTERRUPTED", message: "Server restarted before the job finished" },
+      finishedAt: new Date(),
+    },
+  });
+  if (interrupted.count > 0) {
+    fastify.log.warn({ count: interrupted.count }, "Marked interrupted sync jobs as failed");
+  }
+
+  while (workerRunning) {
+    const task = queue.shift();
+    if (!task) {
+      await new Promise<void>((resolve) => {
+        wakeWorker = resolve;
+      });
+      wakeWorker = null;
+      continue;
+    }
+
+    await runTask(fastify, task);
+  }
+}
+
+/**
+ * Run one job, recording its outcome
+ *
+ * Never throws; failures end up on the job.
+ */
+async function runTask(fastify: FastifyInstance, task: SyncTask): Promise<void> {
+  const live = liveJobs.get(task.jobId);
+  if (!live) return;
+
+  const startedAt = Date.now();
+  live.job = { ...live.job, status: "running", startedAt: new Date(startedAt).toISOString() };
+  publish(fastify, task.jobId, true);
+
+  try {
+    const onProgress = (progress: SyncJobProgress) => {
+      const phaseChanged = progress.phase !== live.job.progress.phase;
+      live.job = { ...live.job, progress };
+      publish(fastify, task.jobId, phaseChanged);
+    };
+
+    if (task.type === "recipe_sync") {
+      const result = await syncRecipes(
+        fastify,
+        task.modpackSlug,
+        task.version,
+        task.userId,
+        task.payload,
+        onProgress,
+      );
+      live.modpackVersionId = result.modpackVersionId;
+      const recipeSync = buildSyncResponse(result);
+
+      await recordSyncEvent(fastify, {
+        ...recipeSyncEvent(task, startedAt),
+        modpackVersionId: result.modpackVersionId,
+        outcome: result.skipped ? "unchanged" : "succeeded",
+        previousHash: result.previousHash,
+        stats: recipeSync.stats,
+      });
+
+      onProgress({ phase: "verifying", processed: 0, total: 0 });
+      const verification = await verifyVersion(fastify, result.modpackVersionId);
+      finish(fastify, task.jobId, { recipeSync, verification });
+    } else {
+      onProgress({ phase: "verifying", processed: 0, total: 0 });
+      const verification = await verifyModpackVersion(fastify, task.modpackVersionId);
+      finish(fastify, task.jobId, { verification: summarizeVerification(verification) });
+    }
+  } catch (error) {
+    const jobFailure = jobError(fastify, task, error);
+    if (task.type === "recipe_sync") {
+      await recordRecipeSyncFailure(fastify, task, startedAt, jobFailure.code);
+    }
+    finish(fastify, task.jobId, { error: jobFailure });
+  }
+
+  await live.saving;
+  liveJobs.delete(task.jobId);
+}
+
+// ==================== HELPERS ====================
+
+async function createJob(
+  fastify: FastifyInstance,
+  type: SyncJobType,
+  userId: string,
+  modpackVersionId: string | null,
+): Promise<SyncJobResponse> {
+  const row = await fastify.prisma.syncJob.create({
+    data: { type, userId, modpackVersionId },
+  });
+
+  const job = toJobResponse(row);
+  liveJobs.set(row.id, {
+    userId,
+    job,
+    modpackVersionId,
+    persistedAt: Date.now(),
+    saving: Promise.resolve(),
+  });
+  return job;
+}
+
+/**
+ * Record the outcome of a job
+ */
+function finish(
+  fastify: FastifyInstance,
+  jobId: string,
+  outcome: Pick<SyncJobResponse, "recipeSync" | "verification" | "error">,
+): void {
+  const live = liveJobs.get(jobId);
+  if (!live) return;
+
+  live.job = {
+    ...live.job,
+    ...outcome,
+    status: outcome.error ? "failed" : "succeeded",
+    progress: { ...live.job.progress, phase: "done" },
+    finishedAt: new Date().toISOString(),
+  };
+  publish(fastify, jobId, true);
+}
+
+/**
+ * Send a job's state to subscribers and, when due, to the database
+ */
+function publish(fastify: FastifyInstance, jobId: string, force: boolean): void {
+  const live = liveJobs.get(jobId);
+  if (!live) return;
+
+  jobEvents.emit(jobId, live.job);
+
+  if (!force && Date.now() - live.persistedAt < PROGRESS_PERSIST_INTERVAL_MS) return;
+  live.persistedAt = Date.now();
+
+  const { job, modpackVersionId } = live;
+  live.saving = live.saving
+    .then(async () => {
+      await fastify.prisma.syncJob.update({
+        where: { id: jobId },
+        data: {
+          status: job.status.toUpperCase() as SyncJob["status"],
+          phase: job.progress.phase,
+          processed: job.progress.processed,
+          total: job.progress.total,
+          result:
+            job.recipeSync || job.verification
+              ? ({
+                  recipeSync: job.recipeSync,
+                  verification: job.verification,
+                } as unknown as Prisma.InputJsonValue)
+              : Prisma.DbNull,
+          error: job.error ? (job.error as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+          modpackVersionId,
+          startedAt: job.startedAt ? new Date(job.startedAt) : null,
+          finishedAt: job.finishedAt ? new Date(job.finishedAt) : null,
+        },
+      });
+    })
+    .catch((error) => {
+      fastify.log.warn({ error, jobId }, "Failed to save sync job state");
+    });
+}
+
+/**
+ * Sync history fields shared by every outcome of a recipe sync job
+ */
+function recipeSyncEvent(task: Extract<SyncTask, { type: "recipe_sync" }>, startedAt: number) {
+  return {
+    userId: task.userId,
+    kind: "recipe_sync" as const,
+    contentHash: task.payload.contentHash,
+    manifestHash: task.payload.manifestHash,
+    durationMs: Date.now() - startedAt,
+    clientVersion: task.clientVersion,
+    jobId: task.jobId,
+  };
+}
+
+/**
+ * Record a failed recipe sync in the history of its version
+ *
+ * Strict validation can fail a sync before its version is created; such
+ * syncs have no history to be recorded in.
+ */
+async function recordRecipeSyncFailure(
+  fastify: FastifyInstance,
+  task: Extract<SyncTask, { type: "recipe_sync" }>,
+  startedAt: number,
+  errorCode: string,
+): Promise<void> {
+  const modpackVersion = await fastify.prisma.modpackVersion
+    .findFirst({
+      where: {
+        version: task.version,
+        manifestHash: task.payload.manifestHash,
+        modpack: { slug: task.modpackSlug },
+      },
+      select: { id: true, recipeHash: true },
+    })
+    .catch(() => null);
+  if (!modpackVersion) return;
+
+  await recordSyncEvent(fastify, {
+    ...recipeSyncEvent(task, startedAt),
+    modpackVersionId: modpackVersion.id,
+    outcome: "failed",
+    errorCode,
+    previousHash: modpackVersion.recipeHash,
+  });
+}
+
+/**
+ * Verify a freshly synced version without failing the sync
+ */
+async function verifyVersion(
+  fastify: FastifyInstance,
+  modpackVersionId: string,
+): Promise<ManifestVerificationSummary> {
+  try {
+    return summarizeVerification(await verifyModpackVersion(fastify, modpackVersionId));
+  } catch (error) {
+    fastify.log.warn({ error, versionId: modpackVersionId }, "Manifest verification failed");
+    return { verified: false, source: "none", message: "Manifest verification failed" };
+  }
+}
+
+function summarizeVerification(
+  result: ManifestVerificationSummary & { officialHash?: string },
+): ManifestVerificationSummary {
+  return { verified: result.verified, source: result.source, message: result.message };
+}
+
+/**
+ * Error codes match those the synchronous endpoints send
+ */
+function jobError(fastify: FastifyInstance, task: SyncTask, error: unknown): SyncJobError {
+  if (error instanceof RecipeValidationError) {
+    return {
+      code: "INVALID_RECIPE_DATA",
+      message: error.message,
+      details: { recipes: error.errors },
+    };
+  }
+  if (error instanceof ContentHashMismatchError) {
+    return {
+      code: "CONTENT_HASH_MISMATCH",
+      message: "contentHash does not match the recipes sent",
+      details: { expected: error.expected, received: error.received },
+    };
+  }
+
+  fastify.log.error({ error, jobId: task.jobId }, "Sync job failed");
+
+  return task.type === "recipe_sync"
+    ? { code: "SYNC_FAILED", message: "Failed to sync recipes" }
+    : { code: "VERIFICATION_FAILED", message: "Failed to verify manifest" };
+}
+
+function toJobResponse(row: SyncJob): SyncJobResponse {
+  const result = (row.result ?? {}) as {
+    recipeSync?: RecipeSyncResponse;
+    verification?: ManifestVerificationSummary;
+  };
+
+  return {
+    id: row.id,
+    type: row.type as SyncJobType,
+    status: JOB_STATUSES[row.status],
+    progress: {
+      phase: row.phase as SyncJobProgress["phase"],
+      processed: row.processed,
+      total: row.total,
+    },
+    ...(result.recipeSync ? { recipeSync: result.recipeSync } : {}),
+    ...(result.verification ? { verification: result.verification } : {}),
+    ...(row.error ? { error: row.error as unknown as SyncJobError } : {}),
+    createdAt: row.createdAt.toISOString(),
+    startedAt: row.startedAt?.toISOString() ?? null,
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Tag lookup service
+ *
+ * Resolves tag ingredients to the concrete items of a modpack version.
+ */
+
+import type { FastifyInstance } from "fastify";
+
+// ==================== SERVICE FUNCTIONS ====================
+
+/**
+ * Load the members of the given tags (without "#")
+ *
+ * Members are sorted by item id so tag resolution is deterministic.
+ * Tags without imported members are absent from the result.
+ */
+export async function loadTagMembers(
+  fastify: FastifyInstance,
+  modpackVersionId: string,
+  tags: string[],
+): Promise<Map<string, string[]>> {
+  const members = new Map<string, string[]>();
+  if (tags.length === 0) return members;
+
+  const rows = await fastify.prisma.itemTag.findMany({
+    where: { modpackVersionId, tag: { in: tags } },
+    select: { tag: true, itemId: true },
+    orderBy: { itemId: "asc" },
+  });
+
+  for (const row of rows) {
+    const list = members.get(row.tag) ?? [];
+    list.push(row.itemId);
+    members.set(row.tag, list);
+  }
+
+  return members;
+}
@@ -78,7 +78,10 @@ export class FinalHashMismatchError extends Error {
 // ==================== TYPES ====================
 
 export interface CreateSessionParams {
-  modpackVersionId: string;
+  modpackVersionId: string | null; // null for recipe uploads, whose sync creates the version
+  modpackSlug: string;
+  version: string;
+  manifestHash?: string; // Recipe uploads only
   userId: string;
   type: UploadType;
   totalSize: number;
@@ -135,6 +138,9 @@ export async function createUploadSession(
   const session = await fastify.prisma.uploadSession.create({
     data: {
       modpackVersionId: params.modpackVersionId,
+      modpackSlug: params.modpackSlug,
+      version: params.version,
+      manifestHash: params.manifestHash,
       userId: params.userId,
       type: params.type,
       totalSize: params.totalSize,
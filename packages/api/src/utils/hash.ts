@@ -15,6 +15,15 @@ export function hashBuffer(buffer: Buffer): string {
   return `sha256:${hash}`;
 }
 
+/**
+ * Compute SHA-256 hash of a UTF-8 string
+ * @param value - The string to hash
+ * @returns Hash string in format "sha256:hexdigest"
+ */
+export function hashString(value: string): string {
+  return hashBuffer(Buffer.from(value, "utf-8"));
+}
+
 /**
  * Compute SHA-256 hash of a file
  * @param filePath - Path to the file to hash
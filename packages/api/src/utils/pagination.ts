@@ -0,0 +1,60 @@
+/**
+ * Pagination helpers for list endpoints
+ */
+
+import type { Pagination } from "@recipeflow/shared";
+import type { ApiError } from "../plugins/error-handler.js";
+
+export interface PageParams {
+  page: number; // 1-based
+  limit: number;
+}
+
+export interface PaginationOptions {
+  defaultLimit: number;
+  maxLimit: number;
+}
+
+/**
+ * Parse `page` and `limit` query string values
+ * @returns Page parameters, or an API error body to send with a 400
+ */
+export function parsePagination(
+  query: { page?: string; limit?: string },
+  { defaultLimit, maxLimit }: PaginationOptions,
+): PageParams | ApiError {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  const limit = query.limit === undefined ? defaultLimit : Number(query.limit);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return {
+      error: {
+        code: "INVALID_PAGE",
+        message: "page must be a positive integer",
+      },
+    };
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    return {
+      error: {
+        code: "INVALID_LIMIT",
+        message: `limit must be an integer between 1 and ${maxLimit}`,
+      },
+    };
+  }
+
+  return { page, limit };
+}
+
+/**
+ * Build pagination metadata for a response
+ */
+export function buildPagination({ page, limit }: PageParams, total: number): Pagination {
+  return {
+    page,
+    limit,
+    total,
+    pages: Math.ceil(total / limit),
+  };
+}
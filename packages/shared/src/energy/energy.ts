@@ -0,0 +1,141 @@
+/**
+ * Energy normalization
+ *
+ * Converts the energy of GregTech (EU/t), Thermal (total RF) and
+ * Mekanism (Joules over a duration) recipes into EU, so mixed factories
+ * can show one power total. Conversion ratios come from the modpack's
+ * config and can be overridden per modpack version.
+ */
+
+import type { RecipeData } from "../types/recipe.js";
+
+// ==================== TYPES ====================
+
+export type EnergyUnit = "EU" | "RF" | "J";
+
+/** Conversion ratios; every field is optional when stored as overrides */
+export interface EnergyConfig {
+  rfPerEu: number; // RF/FE worth one EU
+  joulesPerEu: number; // Mekanism Joules worth one EU
+  thermalRfPerTick: number; // Base power of Thermal machines, used for their duration
+}
+
+/** Energy of one craft, natively and in EU */
+export interface RecipeEnergy {
+  unit: EnergyUnit; // Native unit of the recipe
+  perCraft: number; // Native units per craft
+  durationTicks: number | null;
+  euPerCraft: number;
+  euPerTick: number | null; // null when the duration is unknown
+}
+
+// ==================== CONSTANTS ====================
+
+/** GTCEu's 1 EU = 4 FE, Mekanism's 1 FE = 2.5 J, Thermal's 20 RF/t base */
+export const DEFAULT_ENERGY_CONFIG: EnergyConfig = {
+  rfPerEu: 4,
+  joulesPerEu: 10,
+  thermalRfPerTick: 20,
+};
+
+const ENERGY_CONFIG_KEYS = Object.keys(DEFAULT_ENERGY_CONFIG) as Array<keyof EnergyConfig>;
+
+// ==================== CONFIG ====================
+
+/**
+ * Fill missing or invalid ratios from the defaults
+ */
+export function resolveEnergyConfig(overrides?: Partial<EnergyConfig> | null): EnergyConfig {
+  const config = { ...DEFAULT_ENERGY_CONFIG };
+  for (const key of ENERGY_CONFIG_KEYS) {
+    const value = overrides?.[key];
+    if (typeof value === "number" && Number.isFinite(value) && value > 0) config[key] = value;
+  }
+  return config;
+}
+
+/**
+ * Check an untrusted value is a set of energy config overrides
+ */
+export function isEnergyConfigOverrides(value: unknown): value is Partial<EnergyConfig> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+
+  return Object.entries(value).every(
+    ([key, ratio]) =>
+      (ENERGY_CONFIG_KEYS as string[]).includes(key) &&
+      typeof ratio === "number" &&
+      Number.isFinite(ratio) &&
+      ratio > 0,
+  );
+}
+
+// ==================== NORMALIZATION ====================
+
+/**
+ * Energy used by one craft of a recipe, or null if it uses none we know of
+ */
+export function recipeEnergy(
+  data: RecipeData,
+  config: EnergyConfig = DEFAULT_ENERGY_CONFIG,
+): RecipeEnergy | null {
+  const recipe = data as { euPerTick?: unknown; energy?: unknown; duration?: unknown };
+  const duration =
+    typeof recipe.duration === "number" && recipe.duration > 0 ? recipe.duration : null;
+
+  switch (data.type) {
+    case "gregtech:machine": {
+      if (typeof recipe.euPerTick !== "number" || duration === null) return null;
+      return buildEnergy("EU", recipe.euPerTick * duration, duration, 1);
+    }
+    case "thermal:machine": {
+      if (typeof recipe.energy !== "number") return null;
+      return buildEnergy(
+        "RF",
+        recipe.energy,
+        Math.max(1, Math.ceil(recipe.energy / config.thermalRfPerTick)),
+        config.rfPerEu,
+      );
+    }
+    case "mekanism:machine": {
+      if (typeof recipe.energy !== "number") return null;
+      return buildEnergy("J", recipe.energy, duration, config.joulesPerEu);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Convert an amount of energy between units
+ */
+export function convertEnergy(
+  amount: number,
+  from: EnergyUnit,
+  to: EnergyUnit,
+  config: EnergyConfig = DEFAULT_ENERGY_CONFIG,
+): number {
+  const perEu: Record<EnergyUnit, number> = {
+    EU: 1,
+    RF: config.rfPerEu,
+    J: config.joulesPerEu,
+  };
+  return (amount / perEu[from]) * perEu[to];
+}
+
+// ==================== HELPERS ====================
+
+function buildEnergy(
+  unit: EnergyUnit,
+  perCraft: number,
+  durationTicks: number | null,
+  unitsPerEu: number,
+): RecipeEnergy {
+  const euPerCraft = perCraft / unitsPerEu;
+  return {
+    unit,
+    perCraft,
+    durationTicks,
+    euPerCraft,
+    euPerTick: durationTicks === null ? null : euPerCraft / durationTicks,
+  };
+}
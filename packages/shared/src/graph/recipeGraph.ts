@@ -0,0 +1,305 @@
+/**
+ * Recipe graph utilities
+ *
+ * Cycle-aware resolution of recipe chains. Recipes that feed each other
+ * (recycled fluids, returned catalysts, hydrogen loops) are collapsed into
+ * strongly connected components and balanced iteratively instead of being
+ * expanded recursively.
+ */
+
+import type { IngredientEntry } from "../recipe/ingredients.js";
+
+// ==================== TYPES ====================
+
+/** Recipe as seen by the graph: only its flows matter */
+export interface GraphRecipe {
+  id: string; // recipeId
+  inputs: IngredientEntry[];
+  outputs: IngredientEntry[];
+}
+
+/** Net flows of a loop; negative = consumed from outside, positive = leaves the loop */
+export interface RecipeLoop {
+  recipeIds: string[];
+  netFlow: Record<string, number>;
+}
+
+/** Result of balancing a chain for a set of target rates */
+export interface ChainResolution {
+  crafts: Record<string, number>; // recipeId -> crafts per second
+  rawInputs: Record<string, number>; // Ids consumed from outside the chain, per second
+  surplus: Record<string, number>; // Ids produced beyond demand, per second
+  loops: RecipeLoop[];
+  converged: boolean; // False when a loop consumes more than it can ever produce
+}
+
+// ==================== CONSTANTS ====================
+
+const MAX_PASSES = 200;
+const EPSILON = 1e-9;
+
+// ==================== GRAPH ALGORITHMS ====================
+
+/**
+ * Strongly connected components (iterative Tarjan)
+ *
+ * Components are returned in reverse topological order: every component
+ * comes after all components reachable from it.
+ */
+export function stronglyConnectedComponents<T>(
+  nodes: Iterable<T>,
+  successors: (node: T) => Iterable<T>,
+): T[][] {
+  const index = new Map<T, number>();
+  const lowlink = new Map<T, number>();
+  const onStack = new Set<T>();
+  const stack: T[] = [];
+  const components: T[][] = [];
+  let counter = 0;
+
+  for (const root of nodes) {
+    if (index.has(root)) continue;
+
+    const work: Array<{ node: T; iterator: Iterator<T> }> = [];
+    const visit = (node: T) => {
+      index.set(node, counter);
+      lowlink.set(node, counter);
+      counter++;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, iterator: successors(node)[Symbol.iterator]() });
+    };
+
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1]!;
+      const next = frame.iterator.next();
+
+      if (!next.done) {
+        const successor = next.value;
+        if (!index.has(successor)) {
+          visit(successor);
+        } else if (onStack.has(successor)) {
+          lowlink.set(frame.node, Math.min(lowlink.get(frame.node)!, index.get(successor)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent) {
+        lowlink.set(parent.node, Math.min(lowlink.get(parent.node)!, lowlink.get(frame.node)!));
+      }
+
+      if (lowlink.get(frame.node) === index.get(frame.node)) {
+        const component: T[] = [];
+        let member: T;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Collapse a chain into strongly connected components
+ *
+ * A recipe depends on every chain recipe producing one of its inputs.
+ * Components are ordered consumers first, so demand can be pushed down
+ * from the targets towards raw materials.
+ */
+export function condenseRecipeGraph(recipes: GraphRecipe[]): GraphRecipe[][] {
+  const producersOf = buildProducerIndex(recipes);
+  const dependencies = (recipe: GraphRecipe) =>
+    recipe.inputs.flatMap((input) => producersOf.get(input.id) ?? []);
+
+  return stronglyConnectedComponents(recipes, dependencies).reverse();
+}
+
+/**
+ * Check whether a component is a loop (several recipes, or one feeding itself)
+ */
+export function isRecipeLoop(component: GraphRecipe[]): boolean {
+  if (component.length > 1) return true;
+
+  const recipe = component[0];
+  if (!recipe) return false;
+  return recipe.inputs.some((input) => recipe.outputs.some((output) => output.id === input.id));
+}
+
+// ==================== CHAIN RESOLUTION ====================
+
+/**
+ * Balance a chain for target output rates
+ *
+ * `producers` maps each id made inside the chain to the recipe chosen for
+ * it; ids without a producer are raw inputs. Byproducts of any recipe in
+ * the chain offset demand for the same id. Loops are iterated until the
+ * craft rates stop changing; a loop that can never balance falls back to
+ * a single consumers-first pass and reports its back-edge demand as raw.
+ */
+export function resolveChain(
+  producers: Map<string, GraphRecipe>,
+  targets: Record<string, number>,
+): ChainResolution {
+  const recipes = Array.from(new Set(producers.values()));
+  const components = condenseRecipeGraph(recipes);
+  const order = components.flat();
+
+  const crafts = new Map<GraphRecipe, number>(recipes.map((recipe) => [recipe, 0]));
+  const flows = buildFlowIndex(recipes);
+
+  // Crafts/s a producer needs so its item balances, given every other rate
+  const requiredCrafts = (recipe: GraphRecipe, itemId: string): number => {
+    let need = targets[itemId] ?? 0;
+    let ownNet = 0;
+
+    for (const flow of flows.get(itemId) ?? []) {
+      if (flow.recipe === recipe) {
+        ownNet = flow.produced - flow.consumed;
+      } else {
+        need += (crafts.get(flow.recipe) ?? 0) * (flow.consumed - flow.produced);
+      }
+    }
+
+    if (ownNet <= 0 || need <= 0) return 0;
+    return need / ownNet;
+  };
+
+  const producedItems = new Map<GraphRecipe, string[]>();
+  for (const [itemId, recipe] of producers) {
+    producedItems.set(recipe, [...(producedItems.get(recipe) ?? []), itemId]);
+  }
+
+  // The first pass ignores demand flowing back around loops; it is kept
+  // as the fallback when a loop can never balance
+  let firstPass: Map<GraphRecipe, number> | null = null;
+  let converged = false;
+  for (let pass = 0; pass < MAX_PASSES && !converged; pass++) {
+    converged = true;
+
+    for (const recipe of order) {
+      const previous = crafts.get(recipe) ?? 0;
+      const next = Math.max(
+        0,
+        ...(producedItems.get(recipe) ?? []).map((itemId) => requiredCrafts(recipe, itemId)),
+      );
+
+      crafts.set(recipe, next);
+      if (Math.abs(next - previous) > EPSILON * Math.max(1, Math.abs(next))) {
+        converged = false;
+      }
+    }
+
+    firstPass ??= new Map(crafts);
+  }
+
+  if (!converged && firstPass) {
+    for (const [recipe, rate] of firstPass) crafts.set(recipe, rate);
+  }
+
+  // Net balance of every id across the whole chain
+  const rawInputs: Record<string, number> = {};
+  const surplus: Record<string, number> = {};
+  for (const [itemId, itemFlows] of flows) {
+    const balance =
+      itemFlows.reduce(
+        (sum, flow) => sum + (crafts.get(flow.recipe) ?? 0) * (flow.produced - flow.consumed),
+        0,
+      ) - (targets[itemId] ?? 0);
+
+    if (balance < -EPSILON) rawInputs[itemId] = -balance;
+    else if (balance > EPSILON) surplus[itemId] = balance;
+  }
+  for (const [itemId, rate] of Object.entries(targets)) {
+    if (!flows.has(itemId) && rate > 0) rawInputs[itemId] = rate;
+  }
+
+  const loops = components.filter(isRecipeLoop).map((component) => ({
+    recipeIds: component.map((recipe) => recipe.id),
+    netFlow: sumNetFlow(component, crafts),
+  }));
+
+  return {
+    crafts: Object.fromEntries(recipes.map((recipe) => [recipe.id, crafts.get(recipe) ?? 0])),
+    rawInputs,
+    surplus,
+    loops,
+    converged,
+  };
+}
+
+// ==================== HELPERS ====================
+
+interface ItemFlow {
+  recipe: GraphRecipe;
+  produced: number; // Expected amount per craft
+  consumed: number; // Amount per craft
+}
+
+function buildProducerIndex(recipes: GraphRecipe[]): Map<string, GraphRecipe[]> {
+  const index = new Map<string, GraphRecipe[]>();
+  for (const recipe of recipes) {
+    for (const output of recipe.outputs) {
+      const list = index.get(output.id) ?? [];
+      if (!list.includes(recipe)) list.push(recipe);
+      index.set(output.id, list);
+    }
+  }
+  return index;
+}
+
+function buildFlowIndex(recipes: GraphRecipe[]): Map<string, ItemFlow[]> {
+  const index = new Map<string, ItemFlow[]>();
+
+  const flowFor = (recipe: GraphRecipe, itemId: string): ItemFlow => {
+    const list = index.get(itemId) ?? [];
+    index.set(itemId, list);
+
+    let flow = list.find((entry) => entry.recipe === recipe);
+    if (!flow) {
+      flow = { recipe, produced: 0, consumed: 0 };
+      list.push(flow);
+    }
+    return flow;
+  };
+
+  for (const recipe of recipes) {
+    for (const input of recipe.inputs) {
+      flowFor(recipe, input.id).consumed += input.amount;
+    }
+    for (const output of recipe.outputs) {
+      flowFor(recipe, output.id).produced += output.amount * (output.chance ?? 1);
+    }
+  }
+
+  return index;
+}
+
+function sumNetFlow(
+  component: GraphRecipe[],
+  crafts: Map<GraphRecipe, number>,
+): Record<string, number> {
+  const net = new Map<string, number>();
+
+  for (const recipe of component) {
+    const rate = crafts.get(recipe) ?? 0;
+    for (const input of recipe.inputs) {
+      net.set(input.id, (net.get(input.id) ?? 0) - rate * input.amount);
+    }
+    for (const output of recipe.outputs) {
+      net.set(output.id, (net.get(output.id) ?? 0) + rate * output.amount * (output.chance ?? 1));
+    }
+  }
+
+  return Object.fromEntries(
+    Array.from(net.entries()).filter(([, value]) => Math.abs(value) > EPSILON),
+  );
+}
@@ -0,0 +1,198 @@
+/**
+ * GregTech chanced outputs
+ *
+ * Expected yield of chanced outputs at a machine tier, plus spread so
+ * buffers for byproducts can be sized.
+ */
+
+import type { ChancedItemOutput, GregTechMachineRecipe, VoltageTier } from "../types/recipe.js";
+import { VOLTAGE_TIERS } from "../types/recipe.js";
+
+// ==================== TYPES ====================
+
+/** Per-craft yield of one output */
+export interface OutputYield {
+  id: string; // Item or fluid id
+  kind: "item" | "fluid";
+  count: number; // Amount produced when the roll succeeds
+  chance: number; // Effective chance at the machine tier (0-1)
+  expected: number; // count x chance
+  variance: number; // count² x chance x (1 - chance)
+}
+
+/** Range containing the total yield of several crafts with a given probability */
+export interface YieldBounds {
+  low: number;
+  high: number;
+}
+
+// ==================== CONSTANTS ====================
+
+// Above this many crafts the binomial is approximated by a normal distribution
+const EXACT_BINOMIAL_LIMIT = 10_000;
+
+// ==================== EXPECTED VALUE ====================
+
+/**
+ * Effective chance of an output at a machine tier
+ *
+ * Each tier above the recipe's own voltage tier adds boostPerTier, capped
+ * at 100%. Outputs without a chance always drop.
+ */
+export function boostedChance(
+  output: ChancedItemOutput,
+  recipeTier: VoltageTier,
+  machineTier: VoltageTier,
+): number {
+  const base = output.chance ?? 1;
+  const tiersAbove = Math.max(
+    0,
+    VOLTAGE_TIERS.indexOf(machineTier) - VOLTAGE_TIERS.indexOf(recipeTier),
+  );
+  const chance = base + (output.boostPerTier ?? 0) * tiersAbove;
+  return Math.min(1, Math.max(0, chance));
+}
+
+/**
+ * Expected yield per craft of every output of a recipe at a machine tier
+ *
+ * Defaults to the recipe's own tier, where no boost applies. Fluid
+ * outputs are never chanced.
+ */
+export function expectedYield(
+  recipe: GregTechMachineRecipe,
+  machineTier: VoltageTier = recipe.voltageTier,
+): OutputYield[] {
+  const items = (recipe.outputs.items ?? []).map((output) =>
+    buildYield(
+      output.itemId,
+      "item",
+      output.count,
+      boostedChance(output, recipe.voltageTier, machineTier),
+    ),
+  );
+  const fluids = (recipe.outputs.fluids ?? []).map((output) =>
+    buildYield(output.fluidId, "fluid", output.amount, 1),
+  );
+
+  return [...items, ...fluids];
+}
+
+// ==================== BOUNDS ====================
+
+/**
+ * Central range of the total yield over a number of crafts
+ *
+ * Each craft is an independent roll, so the number of successes is
+ * binomial. With probability 0.95 the total lands in [low, high].
+ */
+export function yieldBounds(output: OutputYield, crafts: number, probability = 0.95): YieldBounds {
+  if (!Number.isInteger(crafts) || crafts < 0) {
+    throw new RangeError("crafts must be a non-negative integer");
+  }
+  if (!(probability > 0 && probability < 1)) {
+    throw new RangeError("probability must be between 0 and 1");
+  }
+
+  const { chance, count } = output;
+  if (chance <= 0 || chance >= 1 || crafts === 0) {
+    const total = crafts * count * (chance >= 1 ? 1 : 0);
+    return { low: total, high: total };
+  }
+
+  const tail = (1 - probability) / 2;
+  const [low, high] =
+    crafts <= EXACT_BINOMIAL_LIMIT
+      ? binomialQuantiles(crafts, chance, tail)
+      : normalQuantiles(crafts, chance, tail);
+
+  return { low: low * count, high: high * count };
+}
+
+// ==================== HELPERS ====================
+
+function buildYield(
+  id: string,
+  kind: OutputYield["kind"],
+  count: number,
+  chance: number,
+): OutputYield {
+  return {
+    id,
+    kind,
+    count,
+    chance,
+    expected: count * chance,
+    variance: count * count * chance * (1 - chance),
+  };
+}
+
+/**
+ * Lower and upper tail quantiles of Binomial(n, p), walking the pmf in log space
+ */
+function binomialQuantiles(n: number, p: number, tail: number): [number, number] {
+  const logP = Math.log(p);
+  const logQ = Math.log(1 - p);
+
+  let logCoefficient = 0; // log C(n, k)
+  let cumulative = 0;
+  let low = -1;
+
+  for (let k = 0; k <= n; k++) {
+    if (k > 0) logCoefficient += Math.log(n - k + 1) - Math.log(k);
+    cumulative += Math.exp(logCoefficient + k * logP + (n - k) * logQ);
+
+    if (low === -1 && cumulative >= tail) low = k;
+    if (cumulative >= 1 - tail) return [low, k];
+  }
+
+  return [Math.max(0, low), n];
+}
+
+/**
+ * Normal approximation of the binomial tail quantiles
+ */
+function normalQuantiles(n: number, p: number, tail: number): [number, number] {
+  const mean = n * p;
+  const spread = inverseNormal(1 - tail) * Math.sqrt(n * p * (1 - p));
+  return [Math.max(0, Math.floor(mean - spread)), Math.min(n, Math.ceil(mean + spread))];
+}
+
+/**
+ * Standard normal quantile (Acklam's rational approximation)
+ */
+function inverseNormal(probability: number): number {
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  const rational = (q: number, numerator: number[], denominator: number[]) => {
+    const top = numerator.reduce((sum, coefficient) => sum * q + coefficient, 0);
+    const bottom = denominator.reduce((sum, coefficient) => sum * q + coefficient, 0) * q + 1;
+    return top / bottom;
+  };
+
+  const lowRegion = 0.02425;
+  if (probability < lowRegion) {
+    const q = Math.sqrt(-2 * Math.log(probability));
+    return rational(q, c, d);
+  }
+  if (probability > 1 - lowRegion) {
+    const q = Math.sqrt(-2 * Math.log(1 - probability));
+    return -rational(q, c, d);
+  }
+
+  const q = probability - 0.5;
+  const r = q * q;
+  return rational(r, a, b) * q;
+}
@@ -0,0 +1,178 @@
+/**
+ * GregTech heating coils
+ *
+ * Coil-based multiblocks run recipes faster or cheaper with better coils.
+ * Blast furnaces compare the coil temperature against the recipe's
+ * required temperature; the pyrolyse oven and cracker scale with the coil
+ * tier directly.
+ */
+
+import type { GregTechMachineRecipe, VoltageTier } from "../types/recipe.js";
+import { VOLTAGE_TIERS } from "../types/recipe.js";
+
+// ==================== TYPES ====================
+
+export type CoilType =
+  | "cupronickel"
+  | "kanthal"
+  | "nichrome"
+  | "rtm_alloy"
+  | "hssg"
+  | "naquadah"
+  | "trinium"
+  | "tritanium";
+
+/**
+ * How a multiblock uses its coils
+ * - blast: required temperature, EU discount and perfect overclocks
+ * - pyrolyse: duration scales with the coil tier
+ * - cracker: EU/t scales with the coil tier
+ */
+export type HeatingKind = "blast" | "pyrolyse" | "cracker";
+
+/** Effect of a machine's coils on one recipe */
+export interface CoilModifier {
+  kind: HeatingKind;
+  coilTier: number; // 0 = cupronickel
+  machineTemperature: number; // K, including the voltage tier bonus
+  requiredTemperature: number | null; // K; blast recipes only
+  euMultiplier: number; // Applied to the recipe's EU/t before overclocking
+  durationMultiplier: number; // Applied to the recipe's duration before overclocking
+  perfectOverclocks: number; // Overclocks that quarter the duration instead of halving it
+}
+
+// ==================== CONSTANTS ====================
+
+/** Coils in ascending order (index = coil tier) */
+export const COIL_TYPES: readonly CoilType[] = [
+  "cupronickel",
+  "kanthal",
+  "nichrome",
+  "rtm_alloy",
+  "hssg",
+  "naquadah",
+  "trinium",
+  "tritanium",
+];
+
+const COIL_TEMPERATURES: Record<CoilType, number> = {
+  cupronickel: 1800,
+  kanthal: 2700,
+  nichrome: 3600,
+  rtm_alloy: 4500,
+  hssg: 5400,
+  naquadah: 7200,
+  trinium: 9001,
+  tritanium: 10800,
+};
+
+/** Machine types whose recipes depend on their coils */
+const HEATING_MACHINES = new Map<string, HeatingKind>([
+  ["electric_blast_furnace", "blast"],
+  ["alloy_blast_smelter", "blast"],
+  ["mega_blast_furnace", "blast"],
+  ["pyrolyse_oven", "pyrolyse"],
+  ["cracker", "cracker"],
+]);
+
+// Blast furnaces gain 100K per voltage tier above MV
+const TEMPERATURE_PER_TIER = 100;
+const TEMPERATURE_BONUS_FROM = VOLTAGE_TIERS.indexOf("MV");
+
+// Every 900K above the requirement cuts EU/t by 5%
+const DISCOUNT_STEP = 900;
+const DISCOUNT_FACTOR = 0.95;
+
+// Every 1800K above the requirement makes one overclock perfect
+const PERFECT_OVERCLOCK_STEP = 1800;
+
+// Cracker EU/t drops by 10% per coil tier
+const CRACKER_DISCOUNT_PER_TIER = 0.1;
+
+// ==================== COILS ====================
+
+/**
+ * Check whether a string is a known coil type
+ */
+export function isCoilType(value: string): value is CoilType {
+  return (COIL_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Temperature of a coil, in K
+ */
+export function coilTemperature(coil: CoilType): number {
+  return COIL_TEMPERATURES[coil];
+}
+
+/**
+ * How a machine type uses its coils, or null if it has none
+ */
+export function heatingKind(machineType: string): HeatingKind | null {
+  return HEATING_MACHINES.get(machineType) ?? null;
+}
+
+/**
+ * Temperature a recipe needs, in K
+ *
+ * Read from specialConditions.temperature, or from the minimum coil tier
+ * when only that is given.
+ */
+export function requiredTemperature(recipe: GregTechMachineRecipe): number | null {
+  const conditions = recipe.specialConditions;
+  if (typeof conditions?.temperature === "number") return conditions.temperature;
+
+  const coil = typeof conditions?.coilTier === "number" ? COIL_TYPES[conditions.coilTier] : null;
+  return coil ? COIL_TEMPERATURES[coil] : null;
+}
+
+// ==================== MODIFIERS ====================
+
+/**
+ * Effect of a machine's coils on a recipe
+ *
+ * Returns null for machines without coils. A blast recipe the coils
+ * can't reach comes back with machineTemperature below
+ * requiredTemperature; callers decide how to report it.
+ */
+export function coilModifier(
+  recipe: GregTechMachineRecipe,
+  coil: CoilType,
+  machineTier: VoltageTier,
+): CoilModifier | null {
+  const kind = heatingKind(recipe.machineType);
+  if (!kind) return null;
+
+  const coilTier = COIL_TYPES.indexOf(coil);
+  const tierBonus = Math.max(0, VOLTAGE_TIERS.indexOf(machineTier) - TEMPERATURE_BONUS_FROM);
+  const machineTemperature = COIL_TEMPERATURES[coil] + TEMPERATURE_PER_TIER * tierBonus;
+  const modifier: CoilModifier = {
+    kind,
+    coilTier,
+    machineTemperature,
+    requiredTemperature: null,
+    euMultiplier: 1,
+    durationMultiplier: 1,
+    perfectOverclocks: 0,
+  };
+
+  switch (kind) {
+    case "blast": {
+      const required = requiredTemperature(recipe) ?? 0;
+      const excess = Math.max(0, machineTemperature - required);
+      modifier.requiredTemperature = required;
+      modifier.euMultiplier = DISCOUNT_FACTOR ** Math.floor(excess / DISCOUNT_STEP);
+      modifier.perfectOverclocks = Math.floor(excess / PERFECT_OVERCLOCK_STEP);
+      break;
+    }
+    case "pyrolyse":
+      // Cupronickel runs at 80% speed; each tier above adds 50%
+      modifier.durationMultiplier = coilTier === 0 ? 5 / 4 : 2 / (coilTier + 1);
+      break;
+    case "cracker":
+      modifier.euMultiplier = 1 - CRACKER_DISCOUNT_PER_TIER * coilTier;
+      break;
+  }
+
+  return modifier;
+}
@@ -0,0 +1,185 @@
+/**
+ * GregTech overclocking
+ *
+ * Effective EU/t, duration and throughput of a GregTech recipe running in
+ * a machine of a given tier, with parallels, coils and overclocking applied.
+ */
+
+import type { ItemRate } from "../types/chain.js";
+import type { GregTechMachineRecipe, VoltageTier } from "../types/recipe.js";
+import { VOLTAGE_TIERS } from "../types/recipe.js";
+import { expectedYield } from "./chance.js";
+import { coilModifier } from "./heat.js";
+import type { CoilModifier, CoilType } from "./heat.js";
+
+// ==================== TYPES ====================
+
+/**
+ * How each overclock trades energy for speed
+ * - standard: 4x EU/t, 1/2 duration
+ * - perfect: 4x EU/t, 1/4 duration
+ * - subtick: standard, but overclocks past the 1-tick floor double the
+ *   operations per cycle instead of being wasted
+ */
+export type OverclockMode = "standard" | "perfect" | "subtick";
+
+export interface OverclockOptions {
+  machineTier: VoltageTier;
+  mode?: OverclockMode; // Default "standard"
+  parallel?: number; // Recipes run at once (default 1)
+  amperage?: number; // Amps available at the machine tier (default 1)
+  coil?: CoilType; // Coils of heating multiblocks (EBF, pyrolyse oven, cracker)
+}
+
+export interface OverclockResult {
+  overclocks: number; // Overclocks applied, including subtick ones
+  euPerTick: number; // Total EU/t drawn while running
+  amperage: number; // Amps drawn at the machine tier voltage
+  durationTicks: number;
+  durationSeconds: number;
+  operations: number; // Recipes completed per cycle (parallel x subtick)
+  outputs: ItemRate[]; // Expected output per second
+  coil: CoilModifier | null; // Coil effect applied, if the machine has coils
+}
+
+// ==================== CONSTANTS ====================
+
+const TICKS_PER_SECOND = 20;
+const VOLTAGE_MULTIPLIER = 4;
+
+const DURATION_DIVISORS: Record<OverclockMode, number> = {
+  standard: 2,
+  perfect: 4,
+  subtick: 2,
+};
+
+const PERFECT_DIVISOR = DURATION_DIVISORS.perfect;
+
+// ==================== ERROR CLASSES ====================
+
+export class OverclockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OverclockError";
+  }
+}
+
+// ==================== VOLTAGE HELPERS ====================
+
+/**
+ * Voltage of a tier (ULV = 8, x4 per tier up to MAX = 2^31)
+ */
+export function tierVoltage(tier: VoltageTier): number {
+  return 8 * VOLTAGE_MULTIPLIER ** VOLTAGE_TIERS.indexOf(tier);
+}
+
+/**
+ * Lowest tier whose voltage covers an EU/t (GregTech's recipe tier)
+ */
+export function voltageTierFor(euPerTick: number): VoltageTier {
+  return (
+    VOLTAGE_TIERS.find((tier) => tierVoltage(tier) >= euPerTick) ??
+    VOLTAGE_TIERS[VOLTAGE_TIERS.length - 1]!
+  );
+}
+
+// ==================== CALCULATOR ====================
+
+/**
+ * Calculate how a recipe runs in a machine
+ *
+ * Parallels multiply EU/t and outputs. The overclock count is the number
+ * of tiers between the batch's EU/t and the machine's power budget
+ * (voltage x amperage). Durations are floored to whole ticks, never below
+ * one tick; outside subtick mode, overclocks that would go below one tick
+ * are skipped and cost no energy. Chanced outputs are boosted for the
+ * machine tier.
+ *
+ * With a coil, heating multiblocks first scale the recipe's EU/t and
+ * duration; blast furnaces also turn their first overclocks perfect for
+ * every 1800K above the recipe's temperature.
+ *
+ * @throws OverclockError if the machine cannot run the recipe
+ */
+export function calculateOverclock(
+  recipe: GregTechMachineRecipe,
+  options: OverclockOptions,
+): OverclockResult {
+  const mode = options.mode ?? "standard";
+  const parallel = options.parallel ?? 1;
+  const amperage = options.amperage ?? 1;
+
+  if (!Number.isInteger(parallel) || parallel < 1) {
+    throw new OverclockError("parallel must be a positive integer");
+  }
+  if (!Number.isInteger(amperage) || amperage < 1) {
+    throw new OverclockError("amperage must be a positive integer");
+  }
+  if (VOLTAGE_TIERS.indexOf(options.machineTier) < VOLTAGE_TIERS.indexOf(recipe.voltageTier)) {
+    throw new OverclockError(
+      `A ${options.machineTier} machine cannot run a ${recipe.voltageTier} recipe`,
+    );
+  }
+
+  const coil = options.coil ? coilModifier(recipe, options.coil, options.machineTier) : null;
+  if (coil?.requiredTemperature != null && coil.machineTemperature < coil.requiredTemperature) {
+    throw new OverclockError(
+      `${options.coil} coils reach ${coil.machineTemperature}K, recipe needs ${coil.requiredTemperature}K`,
+    );
+  }
+
+  const machineVoltage = tierVoltage(options.machineTier);
+  const budget = machineVoltage * amperage;
+  const baseEuPerTick = coil ? Math.floor(recipe.euPerTick * coil.euMultiplier) : recipe.euPerTick;
+  let euPerTick = baseEuPerTick * parallel;
+  if (euPerTick > budget) {
+    throw new OverclockError(
+      `${euPerTick} EU/t exceeds the machine's ${budget} EU/t (${amperage}A ${options.machineTier})`,
+    );
+  }
+
+  // Highest tier the power budget fully covers
+  const budgetTier = VOLTAGE_TIERS.reduce(
+    (best, tier, index) => (tierVoltage(tier) <= budget ? index : best),
+    0,
+  );
+  const available =
+    euPerTick > 0 ? Math.max(0, budgetTier - VOLTAGE_TIERS.indexOf(voltageTierFor(euPerTick))) : 0;
+
+  let duration = Math.max(1, Math.floor(recipe.duration * (coil?.durationMultiplier ?? 1)));
+  let subtickOperations = 1;
+  let overclocks = 0;
+
+  for (let i = 0; i < available; i++) {
+    const divisor = i < (coil?.perfectOverclocks ?? 0) ? PERFECT_DIVISOR : DURATION_DIVISORS[mode];
+    if (duration / divisor >= 1) {
+      duration /= divisor;
+    } else if (mode === "subtick") {
+      subtickOperations *= divisor;
+    } else {
+      break;
+    }
+    euPerTick *= VOLTAGE_MULTIPLIER;
+    overclocks++;
+  }
+
+  const durationTicks = Math.max(1, Math.floor(duration));
+  const durationSeconds = durationTicks / TICKS_PER_SECOND;
+  const operations = parallel * subtickOperations;
+
+  const outputs = expectedYield(recipe, options.machineTier).map((output) => ({
+    itemId: output.id,
+    rate: (output.expected * operations) / durationSeconds,
+  }));
+
+  return {
+    overclocks,
+    euPerTick,
+    amperage: Math.ceil(euPerTick / machineVoltage),
+    durationTicks,
+    durationSeconds,
+    operations,
+    outputs,
+    coil,
+  };
+}
@@ -13,3 +13,45 @@ export * from "./types/item.js";
 
 // Upload session types
 export * from "./types/upload.js";
+
+// Query API types
+export * from "./types/query.js";
+
+// Production chain types
+export * from "./types/chain.js";
+
+// Background job types
+export * from "./types/job.js";
+
+// Sync history types
+export * from "./types/syncEvent.js";
+
+// Recipe diff types
+export * from "./types/diff.js";
+
+// Recipe utilities
+export * from "./recipe/ingredients.js";
+export * from "./recipe/normalize.js";
+export * from "./recipe/canonical.js";
+export * from "./recipe/diff.js";
+
+// Search query language
+export * from "./search/query.js";
+
+// Recipe graph
+export * from "./graph/recipeGraph.js";
+
+// Production planner
+export * from "./planner/simplex.js";
+export * from "./planner/productionPlanner.js";
+
+// GregTech calculations
+export * from "./gregtech/overclock.js";
+export * from "./gregtech/chance.js";
+export * from "./gregtech/heat.js";
+
+// Energy normalization
+export * from "./energy/energy.js";
+
+// Recipe validation
+export * from "./validation/recipeSchema.js";
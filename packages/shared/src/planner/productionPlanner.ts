@@ -0,0 +1,268 @@
+/**
+ * Production planner
+ *
+ * Chooses among alternative recipes for a set of target rates by solving
+ * a linear program over craft rates. Every recipe's byproducts count
+ * towards the demand of any other recipe in the plan, and loops balance
+ * naturally because each id only has to net out.
+ */
+
+import type { ItemRate } from "../types/chain.js";
+import type { RecipeData } from "../types/recipe.js";
+import { acceptedIds } from "../recipe/ingredients.js";
+import type { IngredientEntry, TagMembers } from "../recipe/ingredients.js";
+import { normalizeRecipe } from "../recipe/normalize.js";
+import { resolveEnergyConfig } from "../energy/energy.js";
+import type { EnergyConfig } from "../energy/energy.js";
+import { solveLinearProgram } from "./simplex.js";
+import type { LinearConstraint, LinearProgramStatus } from "./simplex.js";
+
+// ==================== TYPES ====================
+
+/** Recipe the planner is allowed to use */
+export interface PlannerRecipe {
+  recipeId: string;
+  data: RecipeData;
+}
+
+/** What the plan minimizes first; ties are broken by raw inputs, then crafts */
+export type PlanObjective = "raw" | "energy";
+
+export interface ProductionPlanOptions {
+  targets: Record<string, number>; // id -> rate per second
+  objective?: PlanObjective; // Default "raw"
+  rawItems?: string[]; // Ids always bought in, even if a recipe could make them
+  rawCosts?: Record<string, number>; // Weight per unit of a raw input (default 1)
+  energyConfig?: Partial<EnergyConfig>; // Ratios used to express all energy in EU
+  tagMembers?: Record<string, string[]>; // Tag (without "#") -> member item ids
+}
+
+/** A recipe used by the plan */
+export interface PlannedRecipe {
+  recipeId: string;
+  craftsPerSecond: number;
+  machines: number | null; // Machines running in parallel; null if duration is unknown
+  euPerTick: number | null; // Average EU/t drawn; null for recipes without energy
+}
+
+/** Item used to fill a tag or multi-option input */
+export interface IngredientChoice {
+  ingredientId: string; // "#tag", or accepted ids joined by "|"
+  itemId: string;
+  rate: number; // Per second
+}
+
+export interface ProductionPlan {
+  status: LinearProgramStatus;
+  recipes: PlannedRecipe[];
+  ingredientChoices: IngredientChoice[];
+  rawInputs: ItemRate[];
+  byproducts: ItemRate[];
+  totalEuPerTick: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const TICKS_PER_SECOND = 20;
+const EPSILON = 1e-9;
+
+// Relative slack allowed on an earlier objective while optimizing the next one
+const OBJECTIVE_TOLERANCE = 1e-10;
+
+// Significant digits kept in results, hiding the slack above
+const RESULT_PRECISION = 9;
+
+// ==================== PLANNER ====================
+
+/**
+ * Plan machine counts meeting the targets from the allowed recipes
+ *
+ * Ids no allowed recipe produces are raw inputs. Chanced outputs count at
+ * their expected value. Tag and multi-option inputs are filled from
+ * whichever accepted item is cheapest.
+ */
+export function planProduction(
+  recipes: PlannerRecipe[],
+  options: ProductionPlanOptions,
+): ProductionPlan {
+  const objective = options.objective ?? "raw";
+  const forcedRaw = new Set(options.rawItems ?? []);
+  const energyConfig = resolveEnergyConfig(options.energyConfig);
+  const normalized = recipes.map((recipe) => normalizeRecipe(recipe.data, energyConfig));
+
+  const tagMembers: TagMembers = new Map(Object.entries(options.tagMembers ?? {}));
+
+  // Net amount of each id per craft, per recipe. Tag and multi-option
+  // inputs consume a choice id instead of a concrete item
+  const choices = new Map<string, string[]>();
+  const recipeNets = normalized.map((recipe) => {
+    const net = new Map<string, number>();
+    for (const entry of recipe.inputs) {
+      const id = choiceId(entry, tagMembers, choices);
+      net.set(id, (net.get(id) ?? 0) - entry.amount);
+    }
+    for (const entry of recipe.outputs) {
+      net.set(entry.id, (net.get(entry.id) ?? 0) + entry.amount * (entry.chance ?? 1));
+    }
+    return net;
+  });
+
+  // Substitutions turn one accepted item into one unit of a choice
+  const substitutions = Array.from(choices).flatMap(([ingredientId, itemIds]) =>
+    itemIds.map((itemId) => ({ ingredientId, itemId })),
+  );
+  const nets = [
+    ...recipeNets,
+    ...substitutions.map(
+      ({ ingredientId, itemId }) =>
+        new Map([
+          [ingredientId, 1],
+          [itemId, -1],
+        ]),
+    ),
+  ];
+
+  const idSet = new Set(Object.keys(options.targets));
+  nets.forEach((net) => net.forEach((_, id) => idSet.add(id)));
+  const ids = Array.from(idSet);
+
+  const producible = new Set<string>();
+  nets.forEach((net) =>
+    net.forEach((amount, id) => {
+      if (amount > EPSILON) producible.add(id);
+    }),
+  );
+  const rawIds = ids.filter((id) => forcedRaw.has(id) || !producible.has(id));
+
+  // Variables: crafts/s per recipe, units/s per substitution, then units/s bought per raw id
+  const recipeCount = recipes.length;
+  const variableCount = nets.length + rawIds.length;
+  const rawColumn = new Map(rawIds.map((id, i) => [id, nets.length + i]));
+
+  // Each id must net out to at least its target
+  const constraints: LinearConstraint[] = ids.map((id) => {
+    const coefficients = new Array<number>(variableCount).fill(0);
+    nets.forEach((net, i) => (coefficients[i] = net.get(id) ?? 0));
+
+    const column = rawColumn.get(id);
+    if (column !== undefined) coefficients[column] = 1;
+
+    return { coefficients, relation: ">=", rhs: options.targets[id] ?? 0 };
+  });
+
+  const rawCost = new Array<number>(variableCount).fill(0);
+  for (const [id, column] of rawColumn) rawCost[column] = options.rawCosts?.[id] ?? 1;
+
+  const energyCost = new Array<number>(variableCount).fill(0);
+  normalized.forEach((recipe, i) => (energyCost[i] = recipe.energy?.euPerCraft ?? 0));
+
+  // Crafts also count substitutions, so unused choices stay at zero
+  const craftCost = new Array<number>(variableCount).fill(0);
+  for (let i = 0; i < nets.length; i++) craftCost[i] = 1;
+
+  const objectives =
+    objective === "energy" ? [energyCost, rawCost, craftCost] : [rawCost, craftCost];
+  const result = solveLexicographic(objectives, constraints);
+
+  if (result.status !== "optimal") {
+    return {
+      status: result.status,
+      recipes: [],
+      ingredientChoices: [],
+      rawInputs: [],
+      byproducts: [],
+      totalEuPerTick: 0,
+    };
+  }
+
+  const values = result.values.map((value) => Number(value.toPrecision(RESULT_PRECISION)));
+
+  const planned: PlannedRecipe[] = [];
+  recipes.forEach((recipe, i) => {
+    const craftsPerSecond = values[i]!;
+    if (craftsPerSecond <= EPSILON) return;
+
+    const { energy, durationTicks: duration } = normalized[i]!;
+    planned.push({
+      recipeId: recipe.recipeId,
+      craftsPerSecond,
+      machines: duration === null ? null : (craftsPerSecond * duration) / TICKS_PER_SECOND,
+      euPerTick: energy ? (craftsPerSecond * energy.euPerCraft) / TICKS_PER_SECOND : null,
+    });
+  });
+
+  const ingredientChoices: IngredientChoice[] = [];
+  substitutions.forEach((substitution, i) => {
+    const rate = values[recipeCount + i]!;
+    if (rate > EPSILON) ingredientChoices.push({ ...substitution, rate });
+  });
+
+  const rawInputs: ItemRate[] = [];
+  for (const [itemId, column] of rawColumn) {
+    const rate = values[column]!;
+    if (rate > EPSILON) rawInputs.push({ itemId, rate });
+  }
+
+  const byproducts: ItemRate[] = [];
+  constraints.forEach((constraint, row) => {
+    const produced = constraint.coefficients.reduce(
+      (sum, coefficient, column) => sum + coefficient * values[column]!,
+      0,
+    );
+    const extra = produced - constraint.rhs;
+    if (extra > EPSILON * Math.max(1, constraint.rhs) && !choices.has(ids[row]!)) {
+      byproducts.push({ itemId: ids[row]!, rate: extra });
+    }
+  });
+
+  return {
+    status: "optimal",
+    recipes: planned,
+    ingredientChoices,
+    rawInputs,
+    byproducts,
+    totalEuPerTick: planned.reduce((sum, recipe) => sum + (recipe.euPerTick ?? 0), 0),
+  };
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Minimize each objective in turn, holding earlier optima (within tolerance)
+ */
+function solveLexicographic(objectives: number[][], constraints: LinearConstraint[]) {
+  const bounded = [...constraints];
+  let result = solveLinearProgram({ objective: objectives[0]!, constraints: bounded });
+
+  for (let i = 1; i < objectives.length && result.status === "optimal"; i++) {
+    const optimum = result.objectiveValue;
+    bounded.push({
+      coefficients: objectives[i - 1]!,
+      relation: "<=",
+      rhs: optimum + OBJECTIVE_TOLERANCE * Math.max(1, Math.abs(optimum)),
+    });
+    result = solveLinearProgram({ objective: objectives[i]!, constraints: bounded });
+  }
+
+  return result;
+}
+
+/**
+ * Id consumed by an input; tag and multi-option inputs get a choice id
+ *
+ * A tag without known members stays a plain (raw) "#tag" id.
+ */
+function choiceId(
+  entry: IngredientEntry,
+  tagMembers: TagMembers,
+  choices: Map<string, string[]>,
+): string {
+  if (entry.kind !== "tag" && !entry.alternatives) return entry.id;
+
+  const id = [entry.id, ...(entry.alternatives ?? [])].join("|");
+  const itemIds = acceptedIds(entry, tagMembers).filter((accepted) => accepted !== id);
+  if (itemIds.length === 0) return entry.id;
+
+  choices.set(id, itemIds);
+  return id;
+}
@@ -0,0 +1,273 @@
+/**
+ * Linear programming
+ *
+ * Small dense two-phase simplex solver for the production planner.
+ * Minimizes an objective over non-negative variables; Bland's rule keeps
+ * degenerate chains (recipe loops) from cycling.
+ */
+
+// ==================== TYPES ====================
+
+export type ConstraintRelation = "<=" | ">=" | "=";
+
+/** One linear constraint: coefficients · x (relation) rhs */
+export interface LinearConstraint {
+  coefficients: number[]; // One per variable; missing entries count as 0
+  relation: ConstraintRelation;
+  rhs: number;
+}
+
+/** Minimize objective · x subject to constraints and x >= 0 */
+export interface LinearProgram {
+  objective: number[];
+  constraints: LinearConstraint[];
+}
+
+export type LinearProgramStatus = "optimal" | "infeasible" | "unbounded";
+
+export interface LinearProgramResult {
+  status: LinearProgramStatus;
+  values: number[]; // Variable values (all 0 unless optimal)
+  objectiveValue: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const EPSILON = 1e-9;
+const MAX_PIVOTS = 50_000;
+const MAX_TABLEAU_CELLS = 1_000_000; // Rows x columns; every pivot touches each cell
+
+// ==================== ERROR CLASSES ====================
+
+/** The program is too large to solve in one request */
+export class TableauTooLargeError extends Error {
+  public readonly rows: number;
+  public readonly columns: number;
+
+  constructor(rows: number, columns: number) {
+    super(
+      `Linear program too large: ${rows} x ${columns} tableau exceeds ${MAX_TABLEAU_CELLS} cells`,
+    );
+    this.name = "TableauTooLargeError";
+    this.rows = rows;
+    this.columns = columns;
+  }
+}
+
+/** The solver gave up before reaching an optimum */
+export class PivotLimitError extends Error {
+  constructor() {
+    super(`Simplex did not terminate within ${MAX_PIVOTS} pivots`);
+    this.name = "PivotLimitError";
+  }
+}
+
+// ==================== SOLVER ====================
+
+/**
+ * Solve a linear program with the two-phase simplex method
+ *
+ * Throws TableauTooLargeError before allocating an oversized tableau and
+ * PivotLimitError if the pivot budget runs out.
+ */
+export function solveLinearProgram(program: LinearProgram): LinearProgramResult {
+  const variableCount = program.objective.length;
+  const rows = program.constraints.map((constraint) => normalizeConstraint(constraint));
+
+  // Columns: variables, then one slack/surplus per inequality, then artificials
+  const slackCount = rows.filter((row) => row.relation !== "=").length;
+  const artificialCount = rows.filter((row) => row.relation !== "<=").length;
+  const artificialStart = variableCount + slackCount;
+  const width = artificialStart + artificialCount + 1;
+  const rhsColumn = width - 1;
+  if (rows.length * width > MAX_TABLEAU_CELLS) {
+    throw new TableauTooLargeError(rows.length, width);
+  }
+
+  const tableau: number[][] = [];
+  const basis: number[] = [];
+  let slack = variableCount;
+  let artificial = artificialStart;
+
+  for (const row of rows) {
+    const line = new Array<number>(width).fill(0);
+    row.coefficients.forEach((value, column) => {
+      if (column < variableCount) line[column] = value;
+    });
+    line[rhsColumn] = row.rhs;
+
+    if (row.relation === "<=") {
+      line[slack] = 1;
+      basis.push(slack++);
+    } else {
+      if (row.relation === ">=") line[slack++] = -1;
+      line[artificial] = 1;
+      basis.push(artificial++);
+    }
+    tableau.push(line);
+  }
+
+  const empty = (status: LinearProgramStatus): LinearProgramResult => ({
+    status,
+    values: new Array<number>(variableCount).fill(0),
+    objectiveValue: 0,
+  });
+
+  // Phase 1: minimize the sum of artificials to find a feasible basis
+  if (artificialCount > 0) {
+    const phaseOneCosts = new Array<number>(width - 1).fill(0);
+    for (let column = artificialStart; column < rhsColumn; column++) phaseOneCosts[column] = 1;
+
+    const phaseOne = runSimplex(tableau, basis, phaseOneCosts, () => true);
+    if (phaseOne === "unbounded" || -phaseOne[rhsColumn]! > EPSILON * Math.max(1, rowScale(rows))) {
+      return empty("infeasible");
+    }
+
+    removeArtificials(tableau, basis, artificialStart);
+  }
+
+  // Phase 2: optimize the real objective without letting artificials back in
+  const costs = new Array<number>(width - 1).fill(0);
+  program.objective.forEach((value, column) => (costs[column] = value));
+
+  const phaseTwo = runSimplex(tableau, basis, costs, (column) => column < artificialStart);
+  if (phaseTwo === "unbounded") return empty("unbounded");
+
+  const values = new Array<number>(variableCount).fill(0);
+  basis.forEach((column, row) => {
+    if (column < variableCount) values[column] = Math.max(0, tableau[row]![rhsColumn]!);
+  });
+
+  return {
+    status: "optimal",
+    values,
+    objectiveValue: program.objective.reduce((sum, cost, i) => sum + cost * values[i]!, 0),
+  };
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Flip a constraint so its right-hand side is non-negative
+ */
+function normalizeConstraint(constraint: LinearConstraint): LinearConstraint {
+  if (constraint.rhs >= 0) return constraint;
+
+  const flipped: Record<ConstraintRelation, ConstraintRelation> = {
+    "<=": ">=",
+    ">=": "<=",
+    "=": "=",
+  };
+  return {
+    coefficients: constraint.coefficients.map((value) => -value),
+    relation: flipped[constraint.relation],
+    rhs: -constraint.rhs,
+  };
+}
+
+function rowScale(rows: LinearConstraint[]): number {
+  return rows.reduce((max, row) => Math.max(max, Math.abs(row.rhs)), 0);
+}
+
+/**
+ * Run simplex iterations in place; returns the reduced cost row or "unbounded"
+ */
+function runSimplex(
+  tableau: number[][],
+  basis: number[],
+  costs: number[],
+  canEnter: (column: number) => boolean,
+): number[] | "unbounded" {
+  const rhsColumn = costs.length;
+
+  // Reduced costs: c - c_B · B⁻¹A (last entry holds -objective)
+  const reduced = [...costs, 0];
+  tableau.forEach((line, row) => {
+    const cost = costs[basis[row]!] ?? 0;
+    if (cost === 0) return;
+    for (let column = 0; column <= rhsColumn; column++) reduced[column]! -= cost * line[column]!;
+  });
+
+  for (let pivots = 0; pivots < MAX_PIVOTS; pivots++) {
+    // Bland's rule: lowest-index improving column
+    let entering = -1;
+    for (let column = 0; column < rhsColumn; column++) {
+      if (canEnter(column) && reduced[column]! < -EPSILON) {
+        entering = column;
+        break;
+      }
+    }
+    if (entering === -1) return reduced;
+
+    let leaving = -1;
+    let bestRatio = Infinity;
+    tableau.forEach((line, row) => {
+      const coefficient = line[entering]!;
+      if (coefficient <= EPSILON) return;
+
+      const ratio = line[rhsColumn]! / coefficient;
+      if (
+        ratio < bestRatio - EPSILON ||
+        (Math.abs(ratio - bestRatio) <= EPSILON && basis[row]! < basis[leaving]!)
+      ) {
+        bestRatio = ratio;
+        leaving = row;
+      }
+    });
+    if (leaving === -1) return "unbounded";
+
+    pivot(tableau, basis, reduced, leaving, entering);
+  }
+
+  throw new PivotLimitError();
+}
+
+function pivot(
+  tableau: number[][],
+  basis: number[],
+  reduced: number[],
+  pivotRow: number,
+  pivotColumn: number,
+): void {
+  const line = tableau[pivotRow]!;
+  const divisor = line[pivotColumn]!;
+  for (let column = 0; column < line.length; column++) line[column]! /= divisor;
+
+  const eliminate = (target: number[]) => {
+    const factor = target[pivotColumn]!;
+    if (factor === 0) return;
+    for (let column = 0; column < line.length; column++) target[column]! -= factor * line[column]!;
+  };
+
+  tableau.forEach((other, row) => {
+    if (row !== pivotRow) eliminate(other);
+  });
+  eliminate(reduced);
+  basis[pivotRow] = pivotColumn;
+}
+
+/**
+ * Pivot artificials out of the basis after phase 1
+ *
+ * An artificial left at zero in a row with no other non-zero entry marks
+ * a redundant constraint; that row is dropped.
+ */
+function removeArtificials(tableau: number[][], basis: number[], artificialStart: number): void {
+  const unused = new Array<number>(tableau[0]?.length ?? 0).fill(0);
+
+  for (let row = tableau.length - 1; row >= 0; row--) {
+    if (basis[row]! < artificialStart) continue;
+
+    const line = tableau[row]!;
+    const column = line.findIndex(
+      (value, index) => index < artificialStart && Math.abs(value) > EPSILON,
+    );
+
+    if (column === -1) {
+      tableau.splice(row, 1);
+      basis.splice(row, 1);
+    } else {
+      pivot(tableau, basis, unused, row, column);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Canonical recipe serialization
+ *
+ * A stable JSON encoding of recipes, so the companion mod and the server
+ * compute identical hashes for identical content regardless of key order
+ * or recipe order. Hashing itself (SHA-256) is left to each side.
+ *
+ * - Per-recipe hash: SHA-256 of canonicalRecipeJson(recipe)
+ * - contentHash: SHA-256 of canonicalRecipeSetJson(per-recipe hashes)
+ */
+
+import type { RecipeHashEntry, RecipeSyncInput } from "../types/upload.js";
+
+// ==================== SERIALIZATION ====================
+
+/**
+ * Serialize a JSON value with object keys sorted and no whitespace
+ *
+ * Undefined object fields are dropped, as JSON.stringify does.
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((entry) => (entry === undefined ? "null" : canonicalJson(entry))).join(",")}]`;
+  }
+
+  const fields = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(
+      (key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`,
+    );
+  return `{${fields.join(",")}}`;
+}
+
+/**
+ * Canonical form of one recipe, the input of its per-recipe hash
+ *
+ * Covers everything stored for the recipe except its id.
+ */
+export function canonicalRecipeJson(
+  recipe: Pick<RecipeSyncInput, "type" | "sourceMod" | "data">,
+): string {
+  return canonicalJson({ type: recipe.type, sourceMod: recipe.sourceMod, data: recipe.data });
+}
+
+/**
+ * Canonical form of a recipe set, the input of its contentHash
+ *
+ * Lists each recipe's id and per-recipe hash, sorted by id (code unit
+ * order), so the set hash can be rebuilt from stored per-recipe hashes
+ * when a delta sync only sends part of the set.
+ */
+export function canonicalRecipeSetJson(entries: readonly RecipeHashEntry[]): string {
+  const sorted = entries
+    .map(({ recipeId, hash }) => ({ recipeId, hash }))
+    .sort((a, b) => (a.recipeId < b.recipeId ? -1 : a.recipeId > b.recipeId ? 1 : 0));
+  return canonicalJson(sorted);
+}
@@ -0,0 +1,70 @@
+/**
+ * Field-level recipe diff
+ *
+ * Lists the leaf values that differ between two versions of a recipe.
+ * Objects are compared key by key and arrays index by index, so a
+ * reordered ingredient list shows up as changes at each moved index.
+ */
+
+import type { RecipeFieldChange } from "../types/diff.js";
+import type { RecipeSyncInput } from "../types/upload.js";
+import { canonicalJson } from "./canonical.js";
+
+/**
+ * Diff two versions of a recipe
+ *
+ * Paths start at the recipe: "type", "sourceMod" or "data.…".
+ */
+export function diffRecipe(
+  before: Pick<RecipeSyncInput, "type" | "sourceMod" | "data">,
+  after: Pick<RecipeSyncInput, "type" | "sourceMod" | "data">,
+): RecipeFieldChange[] {
+  const changes: RecipeFieldChange[] = [];
+  diffValue("type", before.type, after.type, changes);
+  diffValue("sourceMod", before.sourceMod, after.sourceMod, changes);
+  diffValue("data", before.data, after.data, changes);
+  return changes;
+}
+
+// ==================== HELPERS ====================
+
+function diffValue(
+  path: string,
+  before: unknown,
+  after: unknown,
+  changes: RecipeFieldChange[],
+): void {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      const itemPath = `${path}[${i}]`;
+      if (i >= after.length) changes.push({ path: itemPath, before: before[i] });
+      else if (i >= before.length) changes.push({ path: itemPath, after: after[i] });
+      else diffValue(itemPath, before[i], after[i], changes);
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of [...keys].sort()) {
+      const fieldPath = `${path}.${key}`;
+      if (after[key] === undefined) {
+        if (before[key] !== undefined) changes.push({ path: fieldPath, before: before[key] });
+      } else if (before[key] === undefined) {
+        changes.push({ path: fieldPath, after: after[key] });
+      } else {
+        diffValue(fieldPath, before[key], after[key], changes);
+      }
+    }
+    return;
+  }
+
+  if (canonicalJson(before) !== canonicalJson(after)) {
+    changes.push({ path, before, after });
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
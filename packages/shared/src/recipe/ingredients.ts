@@ -0,0 +1,380 @@
+/**
+ * Recipe ingredient extraction
+ *
+ * Flattens any RecipeData variant into a list of consumed and produced
+ * stacks, used to build the normalized ingredient index. Tag inputs keep
+ * a "#"-prefixed id until they are resolved against tag membership.
+ * Inputs that are not consumed (molds, lenses, programmed circuits) are
+ * kept but flagged, so they are indexed without counting as demand.
+ * Fluids, gases and other resources (mana, LP, stress...) are all read as
+ * resource streams and treated alike.
+ */
+
+import type {
+  ChancedItemOutput,
+  CreateAssemblyStep,
+  FluidStack,
+  ItemIngredient,
+  ItemStack,
+  MachineItemInput,
+  RecipeData,
+  ResourceKind,
+  ResourceStream,
+  ResourceUnit,
+  TagIngredient,
+} from "../types/recipe.js";
+import { isResourceKind, RESOURCE_UNITS } from "../types/recipe.js";
+
+// ==================== TYPES ====================
+
+export type IngredientKind = "item" | "tag" | ResourceKind;
+
+export type IngredientRole = "input" | "output";
+
+/** Single consumed or produced stack of a recipe */
+export interface IngredientEntry {
+  id: string; // Item or resource id, or "#tag" for tag inputs
+  kind: IngredientKind;
+  role: IngredientRole;
+  amount: number; // Item count, or resource amount in `unit`
+  unit?: ResourceUnit; // Only set for resource streams
+  chance?: number; // 0-1, only set for chanced outputs
+  alternatives?: string[]; // Other ids accepted instead of `id` (items or "#tag")
+  consumed?: false; // Only set for inputs that are required but not used up
+}
+
+/** Tag id (without "#") -> member item ids */
+export type TagMembers = ReadonlyMap<string, readonly string[]>;
+
+interface GasStack {
+  gasId: string;
+  amount: number;
+}
+
+/** Every way a recipe section can list resources */
+interface StreamGroup {
+  fluids?: FluidStack[];
+  gases?: GasStack[];
+  resources?: ResourceStream[];
+}
+
+/** Loose view over every RecipeData variant (sync payloads are not trusted) */
+interface RecipeShape {
+  pattern?: string[];
+  key?: Record<string, ItemIngredient>;
+  ingredients?: ItemIngredient[];
+  input?: ItemIngredient;
+  template?: ItemIngredient;
+  base?: ItemIngredient;
+  addition?: ItemIngredient;
+  top?: ItemIngredient;
+  middle?: ItemIngredient;
+  bottom?: ItemIngredient;
+  mode?: string;
+  catalyst?: string;
+  loops?: number;
+  sequence?: CreateAssemblyStep[];
+  output?: ItemStack;
+  mana?: number;
+  inputs?: StreamGroup & { items?: MachineItemInput[]; circuit?: number | null };
+  circuit?: number | null;
+  specialConditions?: { circuit?: number | null };
+  outputs?: StreamGroup & { items?: ChancedItemOutput[] };
+}
+
+// ==================== CONSTANTS ====================
+
+/** Item standing in for a GregTech programmed circuit input */
+export const PROGRAMMED_CIRCUIT_ID = "gtceu:programmed_circuit";
+
+/** Resource id of Botania mana */
+export const MANA_ID = "botania:mana";
+
+// ==================== EXTRACTION ====================
+
+/**
+ * Extract all inputs and outputs of a recipe
+ *
+ * Stacks with the same id, role and chance are merged, so a shaped recipe
+ * using "I" three times yields a single entry with amount 3. A list of
+ * alternatives becomes one entry for its first option, with the others
+ * in `alternatives`. Non-consumed inputs are flagged with `consumed: false`
+ * and never merged with consumed stacks of the same id.
+ */
+export function extractIngredients(data: RecipeData): IngredientEntry[] {
+  const recipe = data as RecipeShape;
+  const entries = new Map<string, IngredientEntry>();
+
+  const add = (entry: IngredientEntry) => {
+    if (!entry.id || !Number.isFinite(entry.amount) || entry.amount <= 0) return;
+
+    const key = `${entry.role}|${entry.kind}|${entry.id}|${entry.chance ?? 1}|${entry.alternatives?.join(",") ?? ""}|${entry.consumed ?? true}`;
+    const existing = entries.get(key);
+    if (existing) {
+      existing.amount += entry.amount;
+    } else {
+      entries.set(key, { ...entry });
+    }
+  };
+
+  const addInput = (
+    ingredient: MachineItemInput | undefined,
+    multiplier = 1,
+    consumed = ingredient?.consumed !== false,
+  ) => {
+    const options = ingredientOptions(ingredient);
+    const [primary, ...alternatives] = options.map(optionId);
+    if (!primary) return;
+
+    add({
+      id: primary,
+      kind: isTagId(primary) ? "tag" : "item",
+      role: "input",
+      amount: ((ingredient as { count?: number }).count ?? 1) * multiplier,
+      ...(alternatives.length > 0 ? { alternatives } : {}),
+      ...(consumed ? {} : { consumed: false as const }),
+    });
+  };
+
+  const addStream = (stream: ResourceStream, role: IngredientRole, multiplier = 1) => {
+    add({
+      id: stream.id,
+      kind: stream.kind,
+      role,
+      amount: stream.amount * multiplier,
+      unit: stream.unit,
+    });
+  };
+
+  const addItem = (stack: ItemStack | undefined, role: IngredientRole, multiplier = 1) => {
+    if (!isItemStack(stack)) return;
+    const chance = role === "output" ? (stack as ChancedItemOutput).chance : undefined;
+    add({
+      id: stack.itemId,
+      kind: "item",
+      role,
+      amount: (stack.count ?? 1) * multiplier,
+      ...(typeof chance === "number" && chance < 1 ? { chance } : {}),
+    });
+  };
+
+  // Shaped crafting: each key counts once per occurrence in the pattern
+  if (recipe.key && typeof recipe.key === "object") {
+    const pattern = Array.isArray(recipe.pattern) ? recipe.pattern.join("") : "";
+    for (const [symbol, stack] of Object.entries(recipe.key)) {
+      const occurrences = pattern.split(symbol).length - 1;
+      addInput(stack, occurrences > 0 ? occurrences : 1);
+    }
+  }
+
+  // Shapeless crafting
+  for (const stack of asArray(recipe.ingredients)) {
+    addInput(stack);
+  }
+
+  // Smelting, stonecutting and smithing slots
+  addInput(recipe.input);
+  addInput(recipe.template);
+  addInput(recipe.base);
+  addInput(recipe.addition);
+  addItem(recipe.output, "output");
+
+  // AE2 inscriber: the top and bottom presses are kept unless in press mode
+  const pressesConsumed = data.type !== "ae2:inscriber" || recipe.mode === "press";
+  addInput(recipe.top, 1, pressesConsumed);
+  addInput(recipe.middle);
+  addInput(recipe.bottom, 1, pressesConsumed);
+
+  // Botania mana infusion: the catalyst block under the pool stays in place,
+  // mana is drawn from the pool
+  if (data.type === "botania:mana_infusion") {
+    if (typeof recipe.catalyst === "string") {
+      add({ id: recipe.catalyst, kind: "item", role: "input", amount: 1, consumed: false });
+    }
+    if (typeof recipe.mana === "number") {
+      addStream(resourceStream("mana", MANA_ID, recipe.mana), "input");
+    }
+  }
+
+  // Create sequenced assembly: each step adds its inputs once per loop; the
+  // transitional item only exists in between and is neither input nor output
+  const loops = typeof recipe.loops === "number" && recipe.loops > 0 ? recipe.loops : 1;
+  for (const step of asArray(recipe.sequence)) {
+    for (const stack of asArray(step?.items)) {
+      addInput(stack, stack?.consumed === false ? 1 : loops);
+    }
+    for (const stream of groupStreams(step)) {
+      addStream(stream, "input", loops);
+    }
+  }
+
+  // Machine recipes (GregTech, Thermal, Mekanism, generic)
+  for (const [role, group] of [
+    ["input", recipe.inputs],
+    ["output", recipe.outputs],
+  ] as const) {
+    if (!group || typeof group !== "object") continue;
+
+    for (const stack of asArray<MachineItemInput>(group.items)) {
+      if (role === "input") addInput(stack);
+      else addItem(stack as ItemStack, role);
+    }
+    for (const stream of groupStreams(group)) {
+      addStream(stream, role);
+    }
+  }
+
+  // GregTech programmed circuit: the configuration lives on the normalized machine
+  if (programmedCircuit(data) !== undefined) {
+    add({ id: PROGRAMMED_CIRCUIT_ID, kind: "item", role: "input", amount: 1, consumed: false });
+  }
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Programmed circuit configuration of a recipe, if it needs one
+ *
+ * The companion mod sends it as a top-level `circuit`, in
+ * `specialConditions` or in `inputs`; null means none.
+ */
+export function programmedCircuit(data: RecipeData): number | undefined {
+  const recipe = data as RecipeShape;
+  for (const circuit of [
+    recipe.circuit,
+    recipe.specialConditions?.circuit,
+    recipe.inputs?.circuit,
+  ]) {
+    if (typeof circuit === "number") return circuit;
+  }
+  return undefined;
+}
+
+// ==================== TAG RESOLUTION ====================
+
+/**
+ * Id used for a tag in ingredient entries and the ingredient index
+ */
+export function tagIngredientId(tag: string): string {
+  return `#${tag}`;
+}
+
+/**
+ * Check whether an ingredient id refers to a tag
+ */
+export function isTagId(id: string): boolean {
+  return id.startsWith("#");
+}
+
+/**
+ * Tags referenced by a set of entries (without "#")
+ */
+export function referencedTags(entries: IngredientEntry[]): string[] {
+  const tags = new Set<string>();
+  for (const entry of entries) {
+    for (const id of [entry.id, ...(entry.alternatives ?? [])]) {
+      if (isTagId(id)) tags.add(id.slice(1));
+    }
+  }
+  return Array.from(tags);
+}
+
+/**
+ * Concrete ids an entry accepts, in preference order
+ *
+ * Tags expand to their members; tags without known members are kept as
+ * "#tag" so they still show up as an input.
+ */
+export function acceptedIds(entry: IngredientEntry, tagMembers: TagMembers): string[] {
+  const ids = new Set<string>();
+  for (const id of [entry.id, ...(entry.alternatives ?? [])]) {
+    const members = isTagId(id) ? tagMembers.get(id.slice(1)) : undefined;
+    if (members && members.length > 0) members.forEach((member) => ids.add(member));
+    else ids.add(id);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Pick one concrete id for an entry
+ *
+ * The first accepted id matching `prefer` wins, otherwise the first
+ * accepted id.
+ */
+export function resolveIngredient(
+  entry: IngredientEntry,
+  tagMembers: TagMembers,
+  prefer: (id: string) => boolean = () => false,
+): IngredientEntry {
+  const ids = acceptedIds(entry, tagMembers);
+  const id = ids.find(prefer) ?? ids[0] ?? entry.id;
+
+  // Only item slots take tags or alternatives, so a resolved id is an item
+  const resolved: IngredientEntry = { ...entry, id, kind: isTagId(id) ? "tag" : entry.kind };
+  if (entry.kind === "tag" && !isTagId(id)) resolved.kind = "item";
+  delete resolved.alternatives;
+  return resolved;
+}
+
+// ==================== HELPERS ====================
+
+function resourceStream(kind: ResourceKind, id: string, amount: number): ResourceStream {
+  return { kind, id, amount, unit: RESOURCE_UNITS[kind] };
+}
+
+/**
+ * Fluids, gases and generic resources of a recipe section as streams
+ *
+ * Units always come from the kind, so a mislabelled unit can't skew rates.
+ */
+function groupStreams(group: StreamGroup | undefined): ResourceStream[] {
+  if (!group || typeof group !== "object") return [];
+
+  const streams: ResourceStream[] = [];
+  for (const fluid of asArray(group.fluids)) {
+    if (typeof fluid?.fluidId === "string") {
+      streams.push(resourceStream("fluid", fluid.fluidId, fluid.amount));
+    }
+  }
+  for (const gas of asArray(group.gases)) {
+    if (typeof gas?.gasId === "string") streams.push(resourceStream("gas", gas.gasId, gas.amount));
+  }
+  for (const resource of asArray(group.resources)) {
+    if (typeof resource?.id === "string" && isResourceKind(resource.kind)) {
+      streams.push(resourceStream(resource.kind, resource.id, resource.amount));
+    }
+  }
+  return streams;
+}
+
+function ingredientOptions(
+  ingredient: MachineItemInput | undefined,
+): Array<ItemStack | TagIngredient> {
+  if (!ingredient || typeof ingredient !== "object") return [];
+  if (Array.isArray((ingredient as { anyOf?: unknown }).anyOf)) {
+    return (ingredient as { anyOf: unknown[] }).anyOf.filter(
+      (option): option is ItemStack | TagIngredient => isItemStack(option) || isTag(option),
+    );
+  }
+  return isItemStack(ingredient) || isTag(ingredient) ? [ingredient] : [];
+}
+
+function optionId(option: ItemStack | TagIngredient): string {
+  return isTag(option) ? tagIngredientId(option.tag) : option.itemId;
+}
+
+function isTag(value: unknown): value is TagIngredient {
+  return (
+    typeof value === "object" && value !== null && typeof (value as TagIngredient).tag === "string"
+  );
+}
+
+function isItemStack(value: unknown): value is ItemStack {
+  return (
+    typeof value === "object" && value !== null && typeof (value as ItemStack).itemId === "string"
+  );
+}
+
+function asArray<T>(value: T[] | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
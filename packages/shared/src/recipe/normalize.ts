@@ -0,0 +1,113 @@
+/**
+ * Normalized recipe view
+ *
+ * Turns any RecipeData variant into one canonical shape, so calculators,
+ * search and rendering don't special-case crafting patterns, smelting
+ * slots or nested machine inputs.
+ */
+
+import type { CreateHeatRequirement, RecipeData, VoltageTier } from "../types/recipe.js";
+import { isCreateHeatRequirement, isVoltageTier } from "../types/recipe.js";
+import { recipeEnergy, DEFAULT_ENERGY_CONFIG } from "../energy/energy.js";
+import type { EnergyConfig, RecipeEnergy } from "../energy/energy.js";
+import { extractIngredients, programmedCircuit } from "./ingredients.js";
+import type { IngredientEntry } from "./ingredients.js";
+
+// ==================== TYPES ====================
+
+/** Machine or block a recipe runs in */
+export interface RecipeMachine {
+  type: string; // e.g., "electric_blast_furnace", "minecraft:furnace"
+  voltageTier?: VoltageTier; // GregTech recipes only
+  circuit?: number; // Programmed circuit configuration, GregTech recipes only
+  heat?: CreateHeatRequirement; // Blaze burner heat, Create basin recipes only
+}
+
+/** Canonical view of a recipe, independent of its RecipeData variant */
+export interface NormalizedRecipe {
+  type: string;
+  machine: RecipeMachine | null; // null for recipes without a known machine
+  inputs: IngredientEntry[]; // Consumed by every craft
+  catalysts: IngredientEntry[]; // Required but not consumed (molds, lenses, circuits)
+  outputs: IngredientEntry[]; // Chanced outputs keep their chance
+  durationTicks: number | null; // null when the recipe has no duration
+  energy: RecipeEnergy | null;
+}
+
+// ==================== CONSTANTS ====================
+
+/** Block used by recipe types that carry no machine field */
+const RECIPE_TYPE_MACHINES = new Map<string, string>([
+  ["minecraft:crafting_shaped", "minecraft:crafting_table"],
+  ["minecraft:crafting_shapeless", "minecraft:crafting_table"],
+  ["minecraft:smelting", "minecraft:furnace"],
+  ["minecraft:blasting", "minecraft:blast_furnace"],
+  ["minecraft:smoking", "minecraft:smoker"],
+  ["minecraft:campfire_cooking", "minecraft:campfire"],
+  ["minecraft:stonecutting", "minecraft:stonecutter"],
+  ["minecraft:smithing_transform", "minecraft:smithing_table"],
+  ["minecraft:smithing_trim", "minecraft:smithing_table"],
+  ["create:mixing", "create:mechanical_mixer"],
+  ["create:compacting", "create:mechanical_press"],
+  ["create:sequenced_assembly", "create:sequenced_assembly"],
+  ["ae2:inscriber", "ae2:inscriber"],
+  ["botania:mana_infusion", "botania:mana_pool"],
+]);
+
+// ==================== NORMALIZATION ====================
+
+/**
+ * Normalize a recipe
+ *
+ * Durations come from the recipe itself (duration or cookingTime) and
+ * fall back to the one implied by its energy, as for Thermal machines.
+ */
+export function normalizeRecipe(
+  data: RecipeData,
+  config: EnergyConfig = DEFAULT_ENERGY_CONFIG,
+): NormalizedRecipe {
+  const entries = extractIngredients(data);
+  const energy = recipeEnergy(data, config);
+
+  return {
+    type: data.type,
+    machine: recipeMachine(data),
+    inputs: entries.filter((entry) => entry.role === "input" && entry.consumed !== false),
+    catalysts: entries.filter((entry) => entry.role === "input" && entry.consumed === false),
+    outputs: entries.filter((entry) => entry.role === "output"),
+    durationTicks: ownDuration(data) ?? energy?.durationTicks ?? null,
+    energy,
+  };
+}
+
+// ==================== HELPERS ====================
+
+function recipeMachine(data: RecipeData): RecipeMachine | null {
+  const recipe = data as { machineType?: unknown; voltageTier?: unknown };
+
+  if (typeof recipe.machineType === "string" && recipe.machineType !== "") {
+    const circuit = programmedCircuit(data);
+    return {
+      type: recipe.machineType,
+      ...(typeof recipe.voltageTier === "string" && isVoltageTier(recipe.voltageTier)
+        ? { voltageTier: recipe.voltageTier }
+        : {}),
+      ...(circuit !== undefined ? { circuit } : {}),
+    };
+  }
+
+  const machine = RECIPE_TYPE_MACHINES.get(data.type);
+  if (!machine) return null;
+
+  const heat = (data as { heatRequirement?: unknown }).heatRequirement;
+  return {
+    type: machine,
+    ...(typeof heat === "string" && isCreateHeatRequirement(heat) ? { heat } : {}),
+  };
+}
+
+function ownDuration(data: RecipeData): number | null {
+  const recipe = data as { duration?: unknown; cookingTime?: unknown };
+  const duration = recipe.duration ?? recipe.cookingTime;
+  return typeof duration === "number" && duration > 0 ? duration : null;
+}
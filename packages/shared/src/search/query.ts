@@ -0,0 +1,185 @@
+/**
+ * JEI/EMI-style search query language
+ *
+ * Syntax (terms are ANDed, `|` separates OR groups):
+ * - `sodium hydroxide`  plain text, matches display names
+ * - `"sodium hydroxide"` quoted phrase
+ * - `@gtceu`            mod (item namespace / recipe source mod)
+ * - `#forge:dusts`      tag
+ * - `$NaOH`             tooltip text
+ * - `tier:HV`           GregTech voltage tier
+ * - `machine:chemical_reactor`, `type:gregtech:machine`
+ * - `-term`             negation, e.g. `-@minecraft`
+ */
+
+import { VOLTAGE_TIERS } from "../types/recipe.js";
+
+// ==================== TYPES ====================
+
+export type SearchTermKind = "text" | "mod" | "tag" | "tooltip" | "tier" | "machine" | "type";
+
+export interface SearchTerm {
+  kind: SearchTermKind;
+  value: string;
+  negated: boolean;
+}
+
+/** Parsed query in disjunctive normal form: OR of AND groups */
+export interface SearchQuery {
+  groups: SearchTerm[][];
+}
+
+export class SearchQueryError extends Error {
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "SearchQueryError";
+    this.position = position;
+  }
+}
+
+interface Token {
+  text: string;
+  position: number;
+}
+
+// ==================== CONSTANTS ====================
+
+const PREFIX_KINDS = new Map<string, SearchTermKind>([
+  ["@", "mod"],
+  ["#", "tag"],
+  ["$", "tooltip"],
+]);
+
+const KEYWORD_KINDS = new Map<string, SearchTermKind>([
+  ["mod", "mod"],
+  ["tag", "tag"],
+  ["tooltip", "tooltip"],
+  ["tier", "tier"],
+  ["machine", "machine"],
+  ["type", "type"],
+]);
+
+const OR_SEPARATOR = "|";
+
+// ==================== PARSER ====================
+
+/**
+ * Parse a search string into OR groups of terms
+ * @throws SearchQueryError on unterminated quotes, empty terms or unknown tiers
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const groups: SearchTerm[][] = [[]];
+
+  for (const token of tokenize(input)) {
+    if (token.text === OR_SEPARATOR) {
+      groups.push([]);
+    } else {
+      groups[groups.length - 1]!.push(parseTerm(token));
+    }
+  }
+
+  return { groups: groups.filter((group) => group.length > 0) };
+}
+
+/**
+ * Check whether a query has no terms at all
+ */
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return query.groups.length === 0;
+}
+
+/**
+ * Split input on whitespace and `|`, honouring double quotes
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let current = "";
+  let start = -1;
+  let quoteStart = -1;
+
+  const flush = () => {
+    if (start !== -1) {
+      tokens.push({ text: current, position: start });
+    }
+    current = "";
+    start = -1;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+
+    if (quoteStart !== -1) {
+      if (char === '"') {
+        quoteStart = -1;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (start === -1) start = i;
+      quoteStart = i;
+    } else if (char === OR_SEPARATOR) {
+      flush();
+      tokens.push({ text: OR_SEPARATOR, position: i });
+    } else if (/\s/.test(char)) {
+      flush();
+    } else {
+      if (start === -1) start = i;
+      current += char;
+    }
+  }
+
+  if (quoteStart !== -1) {
+    throw new SearchQueryError("Unterminated quote", quoteStart);
+  }
+  flush();
+
+  return tokens;
+}
+
+/**
+ * Interpret a single token's negation, prefix and keyword
+ */
+function parseTerm({ text, position }: Token): SearchTerm {
+  let rest = text;
+  let negated = false;
+
+  if (rest.startsWith("-") && rest.length > 1) {
+    negated = true;
+    rest = rest.slice(1);
+  }
+
+  let kind: SearchTermKind = "text";
+  const prefixKind = PREFIX_KINDS.get(rest.charAt(0));
+
+  if (prefixKind) {
+    kind = prefixKind;
+    rest = rest.slice(1);
+  } else {
+    const colon = rest.indexOf(":");
+    const keywordKind =
+      colon > 0 ? KEYWORD_KINDS.get(rest.slice(0, colon).toLowerCase()) : undefined;
+    if (keywordKind) {
+      kind = keywordKind;
+      rest = rest.slice(colon + 1);
+    }
+  }
+
+  if (rest.length === 0) {
+    throw new SearchQueryError(`Empty ${kind} term`, position);
+  }
+
+  if (kind === "tier") {
+    const tier = VOLTAGE_TIERS.find((t) => t.toLowerCase() === rest.toLowerCase());
+    if (!tier) {
+      throw new SearchQueryError(`Unknown voltage tier '${rest}'`, position);
+    }
+    rest = tier;
+  }
+
+  return { kind, value: rest, negated };
+}
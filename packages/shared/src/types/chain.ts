@@ -0,0 +1,41 @@
+/**
+ * Production chain generation types
+ */
+
+import type { FlowchartData } from "./recipe.js";
+import type { RecipeLoop } from "../graph/recipeGraph.js";
+import type { ProductionPlanOptions } from "../planner/productionPlanner.js";
+
+/** Request to generate a production tree for a target item */
+export interface ProductionTreeRequest {
+  targetItem: string; // e.g., "gtceu:basic_electronic_circuit"
+  rate: number; // Target output per second (items, or mB for fluids)
+  maxDepth?: number; // Recipe steps to expand before treating inputs as raw (default 10)
+  rawItems?: string[]; // Ids never expanded (e.g., ores you mine)
+  recipePreferences?: Record<string, string>; // itemId -> recipeId to use for it
+}
+
+/** Item, fluid or gas flowing into or out of a generated tree */
+export interface ItemRate {
+  itemId: string;
+  rate: number; // Per second
+}
+
+/** Raw material consumed by a generated tree */
+export interface RawMaterialRate extends ItemRate {
+  reason: "raw" | "no_recipe" | "max_depth" | "cycle";
+}
+
+/** Generated production tree, ready to load into the editor */
+export interface ProductionTreeResponse {
+  flowchart: FlowchartData;
+  rawMaterials: RawMaterialRate[];
+  byproducts: ItemRate[]; // Produced beyond what the chain consumes
+  loops: RecipeLoop[]; // Recipe loops with their net consumption
+  converged: boolean; // False if a loop could not be balanced
+}
+
+/** Request to plan production from a chosen set of recipes */
+export interface ProductionPlanRequest extends ProductionPlanOptions {
+  recipeIds: string[]; // Recipes the planner may choose from
+}
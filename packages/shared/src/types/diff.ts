@@ -0,0 +1,68 @@
+/**
+ * Recipe diff types
+ *
+ * Compares the recipe sets of two versions of a modpack, recipes matched
+ * by recipeId.
+ */
+
+import type { Pagination } from "./query.js";
+
+export type RecipeChangeKind = "added" | "removed" | "changed";
+
+/** Recipe columns a diff can be grouped by */
+export type RecipeDiffGroupBy = "sourceMod" | "type";
+
+/**
+ * One changed value inside a recipe
+ *
+ * path starts at the recipe, e.g. "data.duration" or
+ * "data.inputs[0].count". before is absent for added fields, after for
+ * removed ones.
+ */
+export interface RecipeFieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/** One recipe that differs between the two versions */
+export interface RecipeDiffEntry {
+  recipeId: string;
+  change: RecipeChangeKind;
+  type: string; // From the newer version, except for removed recipes
+  sourceMod: string;
+  fields?: RecipeFieldChange[]; // Changed recipes only
+}
+
+export interface RecipeDiffCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/** Change counts of one sourceMod or type */
+export interface RecipeDiffGroup extends RecipeDiffCounts {
+  key: string;
+}
+
+/** Query params of the diff endpoint */
+export interface RecipeDiffParams {
+  from: string; // Version string, e.g. "1.0.0"
+  to: string;
+  groupBy?: RecipeDiffGroupBy;
+  change?: RecipeChangeKind;
+  sourceMod?: string;
+  type?: string;
+  page?: number;
+  limit?: number;
+}
+
+/** Response from the diff endpoint */
+export interface RecipeDiffResponse {
+  from: string;
+  to: string;
+  summary: RecipeDiffCounts & { unchanged: number }; // Whole diff, before filters
+  groups?: RecipeDiffGroup[]; // With groupBy, most changes first, after filters
+  recipes: RecipeDiffEntry[]; // Ordered by recipeId
+  pagination: Pagination;
+}
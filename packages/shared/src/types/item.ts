@@ -7,6 +7,7 @@ export interface ItemMetadata {
   itemId: string; // e.g., "gtceu:sodium_hydroxide_dust"
   displayName: string; // Localized display name
   tooltipLines: string[]; // Array of tooltip lines (excluding display name)
+  tags?: string[]; // Tags the item belongs to, without "#" (e.g., "forge:ingots/iron")
 }
 
 /** Bulk item metadata payload from the mod */
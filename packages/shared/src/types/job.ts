@@ -0,0 +1,67 @@
+/**
+ * Background job types
+ *
+ * Recipe syncs and manifest verification run as jobs. Clients poll
+ * GET /jobs/:id or follow GET /jobs/:id/events (Server-Sent Events, one
+ * "job" event per update, closed once the job finishes).
+ */
+
+import type { RecipeSyncResponse } from "./upload.js";
+
+export type SyncJobType = "recipe_sync" | "manifest_verification";
+
+export type SyncJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * Step a job is in
+ * - validating, planning, writing, indexing, removing: recipe sync
+ * - verifying: manifest verification, also the last step of a recipe sync
+ */
+export type SyncJobPhase =
+  | "queued"
+  | "validating"
+  | "planning"
+  | "writing"
+  | "indexing"
+  | "removing"
+  | "verifying"
+  | "done";
+
+export interface SyncJobProgress {
+  phase: SyncJobPhase;
+  processed: number; // Rows done in this phase
+  total: number; // Rows in this phase (0 if not counted)
+}
+
+/** Outcome of checking a version's manifest against official releases */
+export interface ManifestVerificationSummary {
+  verified: boolean;
+  source: "curseforge" | "modrinth" | "none";
+  message: string;
+}
+
+export interface SyncJobError {
+  code: string; // Same codes the synchronous endpoints use, e.g. "INVALID_RECIPE_DATA"
+  message: string;
+  details?: unknown;
+}
+
+/** Job state, as returned by GET /jobs/:id and sent on its event stream */
+export interface SyncJobResponse {
+  id: string;
+  type: SyncJobType;
+  status: SyncJobStatus;
+  progress: SyncJobProgress;
+  recipeSync?: RecipeSyncResponse; // Succeeded recipe syncs
+  verification?: ManifestVerificationSummary; // Succeeded jobs that verified a manifest
+  error?: SyncJobError; // Failed jobs
+  createdAt: string; // ISO 8601
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/** Response from starting a recipe sync (202 Accepted) */
+export interface RecipeSyncJobResponse {
+  jobId: string;
+  status: SyncJobStatus;
+}
@@ -0,0 +1,50 @@
+/**
+ * Recipe and item query API types
+ */
+
+import type { RecipeData, VoltageTier } from "./recipe.js";
+import type { ItemWithIcon } from "./item.js";
+import type { RecipeValidationIssue } from "../validation/recipeSchema.js";
+import type { NormalizedRecipe } from "../recipe/normalize.js";
+
+/** Pagination metadata for list responses */
+export interface Pagination {
+  page: number; // 1-based
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+/** Filters accepted by the recipe list endpoint (all optional, combined with AND) */
+export interface RecipeQueryParams {
+  outputItem?: string; // Item, fluid or gas id produced by the recipe
+  inputItem?: string; // Item, fluid or gas id consumed by the recipe
+  type?: string; // e.g., "gregtech:machine"
+  machineType?: string; // e.g., "chemical_reactor"
+  voltageTier?: VoltageTier;
+  sourceMod?: string; // e.g., "gtceu"
+  page?: number;
+  limit?: number;
+}
+
+/** Single recipe as returned by query endpoints */
+export interface RecipeQueryResult {
+  recipeId: string;
+  type: string;
+  sourceMod: string;
+  data: RecipeData;
+  normalized: NormalizedRecipe; // Canonical inputs, outputs, duration, energy and machine
+  validationIssues?: RecipeValidationIssue[]; // Present when the data failed validation at sync
+}
+
+/** Response from the recipe list endpoint */
+export interface RecipeListResponse {
+  recipes: RecipeQueryResult[];
+  pagination: Pagination;
+}
+
+/** Response from the item search endpoint, best matches first */
+export interface ItemSearchResponse {
+  items: ItemWithIcon[];
+  pagination: Pagination;
+}
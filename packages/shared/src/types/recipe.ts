@@ -15,26 +15,95 @@ export interface ItemStack {
   nbt?: Record<string, unknown>;
 }
 
+/** Ingredient matching any item in a tag (e.g., "#forge:ingots/iron") */
+export interface TagIngredient {
+  tag: string; // Tag id without the leading "#", e.g., "forge:ingots/iron"
+  count: number;
+}
+
+/** Ingredient accepting any one of several items or tags */
+export interface AlternativesIngredient {
+  anyOf: Array<ItemStack | TagIngredient>;
+  count: number; // Applies to whichever option is used
+}
+
+/** Anything a recipe can accept in an item slot */
+export type ItemIngredient = ItemStack | TagIngredient | AlternativesIngredient;
+
+/** Check whether an ingredient is a tag */
+export function isTagIngredient(ingredient: ItemIngredient): ingredient is TagIngredient {
+  return typeof (ingredient as TagIngredient).tag === "string";
+}
+
+/** Check whether an ingredient is a list of alternatives */
+export function isAlternativesIngredient(
+  ingredient: ItemIngredient,
+): ingredient is AlternativesIngredient {
+  return Array.isArray((ingredient as AlternativesIngredient).anyOf);
+}
+
+/**
+ * Item input of a machine recipe
+ *
+ * Inputs marked `consumed: false` must be present but are not used up,
+ * like molds, lenses and catalysts.
+ */
+export type MachineItemInput = ItemIngredient & { consumed?: boolean };
+
 /** Fluid with amount in millibuckets */
 export interface FluidStack {
   fluidId: string; // e.g., "minecraft:water"
   amount: number; // millibuckets (mB)
 }
 
+/** Kinds of non-item resources a recipe can consume or produce */
+export type ResourceKind = "fluid" | "gas" | "infusion" | "mana" | "source" | "lp" | "stress";
+
+export type ResourceUnit = "mB" | "mana" | "source" | "LP" | "SU";
+
+/** Unit each resource kind is measured in */
+export const RESOURCE_UNITS: Readonly<Record<ResourceKind, ResourceUnit>> = {
+  fluid: "mB",
+  gas: "mB", // Mekanism gases
+  infusion: "mB", // Mekanism infuse types
+  mana: "mana", // Botania
+  source: "source", // Ars Nouveau
+  lp: "LP", // Blood Magic life points
+  stress: "SU", // Create stress units
+};
+
+/** Check whether a string is a known resource kind */
+export function isResourceKind(value: string): value is ResourceKind {
+  return Object.hasOwn(RESOURCE_UNITS, value);
+}
+
+/**
+ * Amount of a non-item resource used or made by one craft
+ *
+ * Fluids and gases may also be given as FluidStack or Mekanism gas
+ * stacks; both are read as resource streams.
+ */
+export interface ResourceStream {
+  kind: ResourceKind;
+  id: string; // e.g., "mekanism:hydrogen", "botania:mana", "create:stress"
+  amount: number; // Per craft, in `unit`
+  unit: ResourceUnit;
+}
+
 // ==================== VANILLA RECIPES ====================
 
 /** Shaped crafting recipe (3x3 grid with pattern) */
 export interface ShapedCraftingRecipe {
   type: "minecraft:crafting_shaped";
   pattern: string[]; // e.g., ["III", " S ", " S "]
-  key: Record<string, ItemStack>; // Map pattern chars to items
+  key: Record<string, ItemIngredient>; // Map pattern chars to ingredients
   output: ItemStack;
 }
 
 /** Shapeless crafting recipe (unordered ingredients) */
 export interface ShapelessCraftingRecipe {
   type: "minecraft:crafting_shapeless";
-  ingredients: ItemStack[];
+  ingredients: ItemIngredient[];
   output: ItemStack;
 }
 
@@ -45,7 +114,7 @@ export interface SmeltingRecipe {
     | "minecraft:blasting"
     | "minecraft:smoking"
     | "minecraft:campfire_cooking";
-  input: ItemStack;
+  input: ItemIngredient;
   output: ItemStack;
   experience: number;
   cookingTime: number; // ticks
@@ -54,16 +123,16 @@ export interface SmeltingRecipe {
 /** Stonecutter recipe */
 export interface StonecutterRecipe {
   type: "minecraft:stonecutting";
-  input: ItemStack;
+  input: ItemIngredient;
   output: ItemStack;
 }
 
 /** Smithing table recipe (1.20+ format) */
 export interface SmithingRecipe {
   type: "minecraft:smithing_transform" | "minecraft:smithing_trim";
-  template: ItemStack;
-  base: ItemStack;
-  addition: ItemStack;
+  template: ItemIngredient;
+  base: ItemIngredient;
+  addition: ItemIngredient;
   output: ItemStack;
 }
 
@@ -87,10 +156,34 @@ export type VoltageTier =
   | "OpV"
   | "MAX";
 
+/** Voltage tiers in ascending order (index = tier number, ULV = 0) */
+export const VOLTAGE_TIERS: readonly VoltageTier[] = [
+  "ULV",
+  "LV",
+  "MV",
+  "HV",
+  "EV",
+  "IV",
+  "LuV",
+  "ZPM",
+  "UV",
+  "UHV",
+  "UEV",
+  "UIV",
+  "UXV",
+  "OpV",
+  "MAX",
+];
+
+/** Check whether a string is a known voltage tier */
+export function isVoltageTier(value: string): value is VoltageTier {
+  return (VOLTAGE_TIERS as readonly string[]).includes(value);
+}
+
 /** Item output with optional chance */
 export interface ChancedItemOutput extends ItemStack {
-  chance?: number; // 0-1, where 1 = 100%
-  boostPerTier?: number; // Chance increase per voltage tier
+  chance?: number | null; // 0-1, where 1 or null = 100%
+  boostPerTier?: number | null; // Chance increase per voltage tier
 }
 
 /** GregTech machine recipe */
@@ -100,9 +193,11 @@ export interface GregTechMachineRecipe {
   voltageTier: VoltageTier;
   euPerTick: number; // EU/t consumption
   duration: number; // ticks
+  circuit?: number | null; // Programmed circuit configuration (0-32), never consumed; null = none
   inputs: {
-    items: ItemStack[];
+    items: MachineItemInput[];
     fluids: FluidStack[];
+    circuit?: number | null; // Same as circuit, where older exports put it
   };
   outputs: {
     items: ChancedItemOutput[];
@@ -111,7 +206,9 @@ export interface GregTechMachineRecipe {
   specialConditions?: {
     cleanroom?: boolean;
     vacuum?: boolean;
-    coilTier?: number;
+    coilTier?: number; // Minimum coil, 0 = cupronickel
+    temperature?: number; // Required heat in K (blast furnaces)
+    circuit?: number | null; // Same as circuit, where some exports put it
     // Extensible for other mod-specific conditions
     [key: string]: unknown;
   };
@@ -125,7 +222,7 @@ export interface ThermalMachineRecipe {
   machineType: string; // e.g., "pulverizer", "induction_smelter", "centrifuge"
   energy: number; // RF total
   inputs: {
-    items: ItemStack[];
+    items: MachineItemInput[];
     fluids: FluidStack[];
   };
   outputs: {
@@ -143,12 +240,13 @@ export interface MekanismMachineRecipe {
   energy: number; // Joules
   duration: number; // ticks
   inputs: {
-    items: ItemStack[];
+    items: MachineItemInput[];
     fluids: FluidStack[];
     gases: Array<{
       gasId: string;
       amount: number;
     }>;
+    resources?: ResourceStream[]; // e.g., infuse types for the metallurgic infuser
   };
   outputs: {
     items: ChancedItemOutput[];
@@ -160,6 +258,91 @@ export interface MekanismMachineRecipe {
   };
 }
 
+// ==================== CREATE RECIPES ====================
+
+/** Heat a Create basin needs from a blaze burner below it */
+export type CreateHeatRequirement = "none" | "heated" | "superheated";
+
+/** Heat requirements from coolest to hottest */
+export const CREATE_HEAT_REQUIREMENTS: readonly CreateHeatRequirement[] = [
+  "none",
+  "heated",
+  "superheated",
+];
+
+/** Check whether a string is a known Create heat requirement */
+export function isCreateHeatRequirement(value: string): value is CreateHeatRequirement {
+  return (CREATE_HEAT_REQUIREMENTS as readonly string[]).includes(value);
+}
+
+/** Create basin recipe, run by a mechanical mixer or press */
+export interface CreateBasinRecipe {
+  type: "create:mixing" | "create:compacting";
+  heatRequirement: CreateHeatRequirement;
+  duration?: number; // ticks; compacting has none
+  inputs: {
+    items: ItemIngredient[];
+    fluids: FluidStack[];
+  };
+  outputs: {
+    items: ChancedItemOutput[];
+    fluids: FluidStack[];
+  };
+}
+
+/** Single step of a Create sequenced assembly */
+export interface CreateAssemblyStep {
+  type: string; // e.g., "create:deploying", "create:pressing", "create:filling"
+  items?: MachineItemInput[]; // Added by this step (deployers may keep theirs)
+  fluids?: FluidStack[]; // Added by this step (spouts)
+  resources?: ResourceStream[];
+}
+
+/**
+ * Create sequenced assembly
+ *
+ * The input becomes the transitional item, which runs through the
+ * sequence `loops` times. Outputs are weighted: their chances add up to 1.
+ */
+export interface CreateSequencedAssemblyRecipe {
+  type: "create:sequenced_assembly";
+  input: ItemIngredient;
+  transitionalItem: ItemStack; // e.g., "create:incomplete_precision_mechanism"
+  loops: number;
+  sequence: CreateAssemblyStep[];
+  outputs: {
+    items: ChancedItemOutput[];
+  };
+}
+
+// ==================== AE2 RECIPES ====================
+
+/**
+ * Applied Energistics 2 inscriber recipe
+ *
+ * In "inscribe" mode the top and bottom items are presses and are kept;
+ * in "press" mode all three slots are consumed.
+ */
+export interface Ae2InscriberRecipe {
+  type: "ae2:inscriber";
+  mode: "inscribe" | "press";
+  top?: ItemIngredient;
+  middle: ItemIngredient;
+  bottom?: ItemIngredient;
+  output: ItemStack;
+}
+
+// ==================== BOTANIA RECIPES ====================
+
+/** Botania mana pool infusion */
+export interface BotaniaManaInfusionRecipe {
+  type: "botania:mana_infusion";
+  input: ItemIngredient;
+  output: ItemStack;
+  mana: number; // Mana drawn from the pool, read as a "botania:mana" stream
+  catalyst?: string; // Block below the pool, e.g., "botania:alchemy_catalyst"
+}
+
 // ==================== GENERIC MACHINE RECIPE ====================
 
 /**
@@ -167,18 +350,20 @@ export interface MekanismMachineRecipe {
  * Use this when the mod isn't explicitly supported
  */
 export interface GenericMachineRecipe {
-  type: string; // e.g., "create:mixing", "ae2:inscriber"
+  type: string; // e.g., "immersiveengineering:crusher"
   machineType?: string;
   energy?: number;
   duration?: number;
   inputs: {
-    items: ItemStack[];
+    items: MachineItemInput[];
     fluids?: FluidStack[];
+    resources?: ResourceStream[]; // Mana, source, LP, stress and the like
     [key: string]: unknown;
   };
   outputs: {
     items: Array<ItemStack | ChancedItemOutput>;
     fluids?: FluidStack[];
+    resources?: ResourceStream[];
     [key: string]: unknown;
   };
   conditions?: Record<string, unknown>;
@@ -196,6 +381,10 @@ export type RecipeData =
   | GregTechMachineRecipe
   | ThermalMachineRecipe
   | MekanismMachineRecipe
+  | CreateBasinRecipe
+  | CreateSequencedAssemblyRecipe
+  | Ae2InscriberRecipe
+  | BotaniaManaInfusionRecipe
   | GenericMachineRecipe;
 
 // ==================== FLOWCHART DATA ====================
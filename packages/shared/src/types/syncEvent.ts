@@ -0,0 +1,49 @@
+/**
+ * Sync history types
+ *
+ * Every recipe sync and upload completion leaves a SyncEvent, so earlier
+ * syncs of a version can be traced after later ones overwrite its data.
+ */
+
+import type { Pagination } from "./query.js";
+import type { UploadType } from "./upload.js";
+
+export type SyncEventKind = "recipe_sync" | "upload";
+
+/** "unchanged": the content hash matched, so nothing was written */
+export type SyncEventOutcome = "succeeded" | "unchanged" | "failed";
+
+/** Row counts of a sync; which are set depends on what was synced */
+export interface SyncEventStats {
+  received?: number;
+  new?: number;
+  updated?: number;
+  unchanged?: number;
+  removed?: number;
+  invalid?: number;
+  processed?: number; // Icon and item uploads
+}
+
+/** One entry of a version's sync history */
+export interface SyncEventSummary {
+  id: string;
+  kind: SyncEventKind;
+  uploadType: UploadType | null;
+  outcome: SyncEventOutcome;
+  errorCode: string | null;
+  user: { id: string; username: string } | null; // null once the user is deleted
+  contentHash: string | null;
+  previousHash: string | null; // Version's recipe hash before the sync
+  manifestHash: string | null;
+  stats: SyncEventStats | null;
+  durationMs: number;
+  clientVersion: string | null; // Companion mod version
+  jobId: string | null;
+  createdAt: string; // ISO 8601
+}
+
+/** Response from the sync history endpoint, newest first */
+export interface SyncEventListResponse {
+  syncs: SyncEventSummary[];
+  pagination: Pagination;
+}
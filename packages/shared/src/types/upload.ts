@@ -2,7 +2,10 @@
  * Chunked upload session types
  */
 
-export type UploadType = "icons" | "items";
+import type { EnergyConfig } from "../energy/energy.js";
+import type { RecipeValidationIssue } from "../validation/recipeSchema.js";
+
+export type UploadType = "icons" | "items" | "recipes";
 
 /** Request to start a chunked upload session */
 export interface UploadStartRequest {
@@ -11,6 +14,7 @@ export interface UploadStartRequest {
   totalChunks: number; // Number of chunks
   chunkSize: number; // Size per chunk (except possibly last)
   finalHash: string; // Expected SHA-256 of reassembled file (sha256:...)
+  manifestHash?: string; // Required for "recipes": identifies the version to create
 }
 
 /** Response from starting an upload session */
@@ -51,12 +55,14 @@ export interface UploadCompleteSuccessResponse {
   finalHashVerified: true;
   itemsProcessed?: number;
   iconsProcessed?: number;
+  jobId?: string; // "recipes" uploads (202 Accepted): sync job to follow at /jobs/:id
 }
 
 /** Response from completing an upload (failure) */
 export interface UploadCompleteFailureResponse {
   success: false;
   error: string;
+  message?: string; // What was wrong, for INVALID_RECIPES_FILE
   finalHashVerified?: boolean;
   chunksMissing?: number[];
 }
@@ -66,10 +72,36 @@ export type UploadCompleteResponse = UploadCompleteSuccessResponse | UploadCompl
 
 /** Recipe sync request payload */
 export interface RecipeSyncRequest {
-  contentHash: string; // SHA-256 hash of all recipes
+  contentHash: string; // SHA-256 of canonicalRecipeSetJson over the full set; verified by the server
   manifestHash: string; // SHA-256 hash of mod list
   recipeCount: number;
   recipes: RecipeSyncInput[];
+  energyConfig?: Partial<EnergyConfig>; // Conversion ratios read from the pack's config
+  validation?: RecipeValidationMode; // Default "lenient"
+  delta?: boolean; // recipes only holds those a sync plan reported missing or stale
+  removal?: RecipeRemovalMode; // Default "tombstone"
+  removedRecipeIds?: string[]; // Delta syncs only: recipes a sync plan reported removed
+}
+
+/**
+ * How sync handles stored recipes that are no longer in the export
+ * - tombstone: keep them, marked removed and hidden from lookups
+ * - delete: remove them and their ingredient index
+ */
+export type RecipeRemovalMode = "tombstone" | "delete";
+
+/**
+ * How sync handles recipes whose data fails validation
+ * - lenient: store them and flag them as invalid
+ * - strict: reject the whole sync
+ */
+export type RecipeValidationMode = "strict" | "lenient";
+
+/** Validation problems of one recipe in a sync request */
+export interface RecipeValidationReport {
+  recipeId: string;
+  index: number; // Position in the request's recipes array
+  issues: RecipeValidationIssue[];
 }
 
 /** Single recipe in sync request */
@@ -80,6 +112,34 @@ export interface RecipeSyncInput {
   data: Record<string, unknown>; // JSONB recipe data
 }
 
+/**
+ * Phase 1 of a delta sync: the id and hash of every recipe in the export
+ *
+ * The server answers with the recipes it lacks; phase 2 is a regular sync
+ * request with `delta: true` carrying only those.
+ */
+export interface RecipeSyncPlanRequest {
+  contentHash: string; // SHA-256 of canonicalRecipeSetJson(recipes); verified by the server
+  manifestHash: string; // SHA-256 hash of mod list
+  recipeCount: number;
+  recipes: RecipeHashEntry[];
+}
+
+/** Per-recipe hash: SHA-256 of canonicalRecipeJson(recipe), as "sha256:..." */
+export interface RecipeHashEntry {
+  recipeId: string;
+  hash: string;
+}
+
+/** Recipes the server needs in phase 2 of a delta sync */
+export interface RecipeSyncPlanResponse {
+  upToDate: boolean; // Content hash matches; nothing to send
+  missing: string[]; // Not stored yet
+  stale: string[]; // Stored with a different hash
+  removed: string[]; // Stored but no longer exported; pass back as removedRecipeIds
+  unchanged: number;
+}
+
 /** Recipe sync response */
 export interface RecipeSyncResponse {
   success: boolean;
@@ -88,7 +148,10 @@ export interface RecipeSyncResponse {
     new: number;
     updated: number;
     unchanged: number;
+    invalid: number; // Stored but flagged (lenient mode)
+    removed: number; // Tombstoned or deleted, depending on the removal mode
   };
+  errors: RecipeValidationReport[];
   contentHash: string;
   version: string;
 }
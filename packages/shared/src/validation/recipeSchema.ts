@@ -0,0 +1,459 @@
+/**
+ * Recipe data validation
+ *
+ * Runtime schemas for every RecipeData variant. Sync payloads come from
+ * the companion mod and are not trusted, so each recipe is checked before
+ * it is stored: shaped pattern/key consistency, positive durations, known
+ * voltage tiers, chances within 0..1, circuit configurations within 0..32.
+ */
+
+import { isResourceKind, isVoltageTier, RESOURCE_UNITS } from "../types/recipe.js";
+import { COIL_TYPES } from "../gregtech/heat.js";
+
+// ==================== TYPES ====================
+
+/** Single problem found in a recipe's data */
+export interface RecipeValidationIssue {
+  path: string; // e.g., "outputs.items[2].chance"
+  message: string;
+}
+
+/** Checks a value and records issues under its path */
+type Validator = (value: unknown, path: string, issues: RecipeValidationIssue[]) => void;
+
+// ==================== PUBLIC API ====================
+
+/**
+ * Validate recipe data against the schema for its type
+ *
+ * Unknown types are checked as generic machine recipes. Returns an empty
+ * list when the data is valid.
+ */
+export function validateRecipeData(data: unknown): RecipeValidationIssue[] {
+  const issues: RecipeValidationIssue[] = [];
+
+  if (!isObject(data)) {
+    issues.push({ path: "", message: "must be an object" });
+    return issues;
+  }
+  if (typeof data.type !== "string" || data.type === "") {
+    issues.push({ path: "type", message: "must be a non-empty string" });
+    return issues;
+  }
+
+  const validator = RECIPE_SCHEMAS.get(data.type) ?? genericMachineRecipe;
+  validator(data, "", issues);
+  return issues;
+}
+
+// ==================== PRIMITIVES ====================
+
+const nonEmptyString: Validator = (value, path, issues) => {
+  if (typeof value !== "string" || value.trim() === "") {
+    issues.push({ path, message: "must be a non-empty string" });
+  }
+};
+
+const positiveInteger: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    issues.push({ path, message: "must be a positive integer" });
+  }
+};
+
+const positiveNumber: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    issues.push({ path, message: "must be a positive number" });
+  }
+};
+
+const nonNegativeNumber: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    issues.push({ path, message: "must be a non-negative number" });
+  }
+};
+
+const boolean: Validator = (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push({ path, message: "must be a boolean" });
+  }
+};
+
+const circuitConfiguration: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 32) {
+    issues.push({ path, message: "must be an integer between 0 and 32" });
+  }
+};
+
+const coilTier: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isInteger(value) || !COIL_TYPES[value]) {
+    issues.push({ path, message: `must be a coil tier between 0 and ${COIL_TYPES.length - 1}` });
+  }
+};
+
+const probability: Validator = (value, path, issues) => {
+  if (typeof value !== "number" || !(value >= 0 && value <= 1)) {
+    issues.push({ path, message: "must be a number between 0 and 1" });
+  }
+};
+
+const voltageTier: Validator = (value, path, issues) => {
+  if (typeof value !== "string" || !isVoltageTier(value)) {
+    issues.push({ path, message: "must be a known voltage tier" });
+  }
+};
+
+// ==================== COMBINATORS ====================
+
+/** Object with required and optional fields; extra fields are allowed */
+function object(
+  required: Record<string, Validator>,
+  optional: Record<string, Validator> = {},
+): Validator {
+  return (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, message: "must be an object" });
+      return;
+    }
+    for (const [field, validator] of Object.entries(required)) {
+      if (value[field] === undefined) {
+        issues.push({ path: join(path, field), message: "is required" });
+      } else {
+        validator(value[field], join(path, field), issues);
+      }
+    }
+    for (const [field, validator] of Object.entries(optional)) {
+      if (value[field] !== undefined) validator(value[field], join(path, field), issues);
+    }
+  };
+}
+
+function array(item: Validator, { minLength = 0, maxLength = Infinity } = {}): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: "must be an array" });
+      return;
+    }
+    if (value.length < minLength || value.length > maxLength) {
+      const range =
+        maxLength === Infinity ? `at least ${minLength}` : `${minLength} to ${maxLength}`;
+      issues.push({ path, message: `must have ${range} entries` });
+    }
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`, issues));
+  };
+}
+
+function record(item: Validator): Validator {
+  return (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, message: "must be an object" });
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) item(entry, join(path, key), issues);
+  };
+}
+
+function oneOf(...values: string[]): Validator {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      issues.push({ path, message: `must be one of ${values.join(", ")}` });
+    }
+  };
+}
+
+/** Also accepts null, for optional fields where null means absent (e.g. chance = 100%) */
+function nullable(validator: Validator): Validator {
+  return (value, path, issues) => {
+    if (value !== null) validator(value, path, issues);
+  };
+}
+
+function all(...validators: Validator[]): Validator {
+  return (value, path, issues) => {
+    for (const validator of validators) validator(value, path, issues);
+  };
+}
+
+// ==================== STACKS ====================
+
+const itemStack = object(
+  { itemId: nonEmptyString, count: positiveInteger },
+  { nbt: record(() => {}) },
+);
+
+const tagIngredient = object({ tag: nonEmptyString, count: positiveInteger });
+
+const chancedItemOutput = object(
+  { itemId: nonEmptyString, count: positiveInteger },
+  { nbt: record(() => {}), chance: nullable(probability), boostPerTier: nullable(probability) },
+);
+
+const fluidStack = object({ fluidId: nonEmptyString, amount: positiveNumber });
+
+const gasStack = object({ gasId: nonEmptyString, amount: positiveNumber });
+
+/** Resource stream whose unit matches its kind */
+const resourceStream = all(
+  object({
+    kind: oneOf(...Object.keys(RESOURCE_UNITS)),
+    id: nonEmptyString,
+    amount: positiveNumber,
+    unit: nonEmptyString,
+  }),
+  (value, path, issues) => {
+    if (!isObject(value) || typeof value.kind !== "string" || !isResourceKind(value.kind)) return;
+    const unit = RESOURCE_UNITS[value.kind];
+    if (typeof value.unit === "string" && value.unit !== unit) {
+      issues.push({ path: join(path, "unit"), message: `must be '${unit}' for ${value.kind}` });
+    }
+  },
+);
+
+/** Item, tag, or list of alternatives */
+const itemIngredient: Validator = (value, path, issues) => {
+  if (isObject(value) && value.anyOf !== undefined) {
+    object({
+      anyOf: array(ingredientOption, { minLength: 1 }),
+      count: positiveInteger,
+    })(value, path, issues);
+  } else {
+    ingredientOption(value, path, issues);
+  }
+};
+
+/** Machine item input, which may be marked as not consumed */
+const machineItemInput = all(itemIngredient, object({}, { consumed: boolean }));
+
+function ingredientOption(value: unknown, path: string, issues: RecipeValidationIssue[]): void {
+  if (isObject(value) && value.tag !== undefined) {
+    tagIngredient(value, path, issues);
+  } else {
+    itemStack(value, path, issues);
+  }
+}
+
+// ==================== VANILLA ====================
+
+/**
+ * Pattern rows are 1-3 equally wide rows of 1-3 characters; every
+ * non-space symbol needs a key and every key must be used.
+ */
+const shapedPattern: Validator = (value, path, issues) => {
+  if (!isObject(value) || !Array.isArray(value.pattern) || !isObject(value.key)) return;
+
+  const rows = value.pattern;
+  if (rows.some((row) => typeof row !== "string")) {
+    issues.push({ path: join(path, "pattern"), message: "rows must be strings" });
+    return;
+  }
+
+  const width = (rows[0] as string | undefined)?.length ?? 0;
+  if (width < 1 || width > 3 || rows.some((row: string) => row.length !== width)) {
+    issues.push({
+      path: join(path, "pattern"),
+      message: "rows must be 1-3 characters and equally wide",
+    });
+  }
+
+  const symbols = new Set(rows.join("").replace(/ /g, ""));
+  if (symbols.size === 0) {
+    issues.push({ path: join(path, "pattern"), message: "must contain at least one symbol" });
+  }
+  for (const symbol of symbols) {
+    if (value.key[symbol] === undefined) {
+      issues.push({ path: join(path, "key"), message: `is missing symbol '${symbol}'` });
+    }
+  }
+  for (const symbol of Object.keys(value.key)) {
+    if (symbol.length !== 1 || symbol === " ") {
+      issues.push({
+        path: join(path, "key", symbol),
+        message: "must be a single non-space character",
+      });
+    } else if (!symbols.has(symbol)) {
+      issues.push({ path: join(path, "key", symbol), message: "is not used in the pattern" });
+    }
+  }
+};
+
+const shapedCraftingRecipe = all(
+  object({
+    pattern: array(nonEmptyString, { minLength: 1, maxLength: 3 }),
+    key: record(itemIngredient),
+    output: itemStack,
+  }),
+  shapedPattern,
+);
+
+const shapelessCraftingRecipe = object({
+  ingredients: array(itemIngredient, { minLength: 1, maxLength: 9 }),
+  output: itemStack,
+});
+
+const smeltingRecipe = object({
+  input: itemIngredient,
+  output: itemStack,
+  experience: nonNegativeNumber,
+  cookingTime: positiveInteger,
+});
+
+const stonecutterRecipe = object({ input: itemIngredient, output: itemStack });
+
+const smithingRecipe = object({
+  template: itemIngredient,
+  base: itemIngredient,
+  addition: itemIngredient,
+  output: itemStack,
+});
+
+// ==================== MACHINES ====================
+
+const gregTechMachineRecipe = object(
+  {
+    machineType: nonEmptyString,
+    voltageTier,
+    euPerTick: nonNegativeNumber,
+    duration: positiveInteger,
+    inputs: object(
+      { items: array(machineItemInput), fluids: array(fluidStack) },
+      { circuit: nullable(circuitConfiguration) },
+    ),
+    outputs: object({ items: array(chancedItemOutput), fluids: array(fluidStack) }),
+  },
+  {
+    circuit: nullable(circuitConfiguration),
+    specialConditions: object(
+      {},
+      {
+        coilTier: coilTier,
+        temperature: positiveInteger,
+        cleanroom: boolean,
+        vacuum: boolean,
+        circuit: nullable(circuitConfiguration),
+      },
+    ),
+  },
+);
+
+const thermalMachineRecipe = object({
+  machineType: nonEmptyString,
+  energy: nonNegativeNumber,
+  inputs: object({ items: array(machineItemInput), fluids: array(fluidStack) }),
+  outputs: object({ items: array(chancedItemOutput), fluids: array(fluidStack) }),
+});
+
+const mekanismMachineRecipe = object({
+  machineType: nonEmptyString,
+  energy: nonNegativeNumber,
+  duration: positiveInteger,
+  inputs: object(
+    {
+      items: array(machineItemInput),
+      fluids: array(fluidStack),
+      gases: array(gasStack),
+    },
+    { resources: array(resourceStream) },
+  ),
+  outputs: object({
+    items: array(chancedItemOutput),
+    fluids: array(fluidStack),
+    gases: array(gasStack),
+  }),
+});
+
+// ==================== MOD RECIPES ====================
+
+const createBasinRecipe = object(
+  {
+    heatRequirement: oneOf("none", "heated", "superheated"),
+    inputs: object({ items: array(itemIngredient), fluids: array(fluidStack) }),
+    outputs: object({ items: array(chancedItemOutput), fluids: array(fluidStack) }),
+  },
+  { duration: positiveInteger },
+);
+
+const createAssemblyStep = object(
+  { type: nonEmptyString },
+  { items: array(machineItemInput), fluids: array(fluidStack), resources: array(resourceStream) },
+);
+
+/** Weighted outputs: the chances of all outputs add up to 1 */
+const weightedOutputs: Validator = (value, path, issues) => {
+  if (!isObject(value) || !Array.isArray(value.items)) return;
+
+  const chances = value.items.map((output) => (isObject(output) ? (output.chance ?? 1) : 1));
+  if (!chances.every((chance): chance is number => typeof chance === "number")) return;
+
+  const total = chances.reduce((sum, chance) => sum + chance, 0);
+  if (Math.abs(total - 1) > 1e-6) {
+    issues.push({ path: join(path, "items"), message: "chances must add up to 1" });
+  }
+};
+
+const createSequencedAssemblyRecipe = object({
+  input: itemIngredient,
+  transitionalItem: itemStack,
+  loops: positiveInteger,
+  sequence: array(createAssemblyStep, { minLength: 1 }),
+  outputs: all(object({ items: array(chancedItemOutput, { minLength: 1 }) }), weightedOutputs),
+});
+
+const ae2InscriberRecipe = object(
+  { mode: oneOf("inscribe", "press"), middle: itemIngredient, output: itemStack },
+  { top: itemIngredient, bottom: itemIngredient },
+);
+
+const botaniaManaInfusionRecipe = object(
+  { input: itemIngredient, output: itemStack, mana: positiveInteger },
+  { catalyst: nonEmptyString },
+);
+
+// ==================== GENERIC ====================
+
+const genericMachineRecipe = object(
+  {
+    inputs: object(
+      { items: array(machineItemInput) },
+      { fluids: array(fluidStack), resources: array(resourceStream) },
+    ),
+    outputs: object(
+      { items: array(chancedItemOutput) },
+      { fluids: array(fluidStack), resources: array(resourceStream) },
+    ),
+  },
+  {
+    machineType: nonEmptyString,
+    energy: nonNegativeNumber,
+    duration: positiveInteger,
+    conditions: record(() => {}),
+  },
+);
+
+const RECIPE_SCHEMAS = new Map<string, Validator>([
+  ["minecraft:crafting_shaped", shapedCraftingRecipe],
+  ["minecraft:crafting_shapeless", shapelessCraftingRecipe],
+  ["minecraft:smelting", smeltingRecipe],
+  ["minecraft:blasting", smeltingRecipe],
+  ["minecraft:smoking", smeltingRecipe],
+  ["minecraft:campfire_cooking", smeltingRecipe],
+  ["minecraft:stonecutting", stonecutterRecipe],
+  ["minecraft:smithing_transform", smithingRecipe],
+  ["minecraft:smithing_trim", smithingRecipe],
+  ["gregtech:machine", gregTechMachineRecipe],
+  ["thermal:machine", thermalMachineRecipe],
+  ["mekanism:machine", mekanismMachineRecipe],
+  ["create:mixing", createBasinRecipe],
+  ["create:compacting", createBasinRecipe],
+  ["create:sequenced_assembly", createSequencedAssemblyRecipe],
+  ["ae2:inscriber", ae2InscriberRecipe],
+  ["botania:mana_infusion", botaniaManaInfusionRecipe],
+]);
+
+// ==================== HELPERS ====================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function join(...parts: string[]): string {
+  return parts.filter((part) => part !== "").join(".");
+}